@@ -0,0 +1,109 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+/**
+ * Benchmark of the forward pass over the 100x100 grid of the decision
+ * boundary (see getBoundaryInputs in playground.ts): the per-edge
+ * evaluation, where every edge runs its own knot span search and de Boor's
+ * algorithm, against kanForwardProp, which evaluates the basis once per node
+ * and grid and computes every edge as a dot product.
+ *
+ * Run with "npm run benchmark".
+ */
+
+import * as kan from "./kan";
+
+/** Grid resolution of the decision boundary */
+const DENSITY = 100;
+/** Number of passes over the grid per timing */
+const NUM_REPEATS = 10;
+/** Hidden layers of the benchmarked networks */
+const HIDDEN_LAYERS = [[4, 2], [8, 8], [8, 8, 8]];
+const GRID_SIZE = 10;
+const DEGREE = 3;
+
+/** Forward pass evaluating every edge on its own, as before the caching */
+function perEdgeForward(network: kan.KANNode[][], inputs: number[]): number[] {
+  network[0].forEach((node, i) => node.output = inputs[i]);
+  for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
+    for (const node of network[layerIdx]) {
+      node.output = 0;
+      for (const edge of node.inputEdges) {
+        node.output += edge.evaluate(edge.sourceNode.output);
+      }
+    }
+  }
+  return network[network.length - 1].map(node => node.output);
+}
+
+/** Inputs of the grid cells, as in getBoundaryInputs */
+function getGridInputs(): number[][] {
+  const inputs: number[][] = [];
+  for (let i = 0; i < DENSITY; i++) {
+    for (let j = 0; j < DENSITY; j++) {
+      inputs.push([
+        -6 + 12 * i / (DENSITY - 1),
+        6 - 12 * j / (DENSITY - 1)
+      ]);
+    }
+  }
+  return inputs;
+}
+
+/**
+ * Milliseconds per pass over the grid (best of NUM_REPEATS) and the outputs
+ * of the last pass
+ */
+function time(forward: (inputs: number[]) => number[],
+    inputs: number[][]): {millis: number, outputs: number[]} {
+  let best = Infinity;
+  let outputs: number[] = [];
+  for (let repeat = 0; repeat < NUM_REPEATS; repeat++) {
+    const start = Date.now();
+    outputs = [];
+    for (const input of inputs) {
+      outputs.push(forward(input)[0]);
+    }
+    best = Math.min(best, Date.now() - start);
+  }
+  return {millis: best, outputs};
+}
+
+function run(): void {
+  const inputs = getGridInputs();
+  console.log(`Forward pass over a ${DENSITY}x${DENSITY} grid, ` +
+      `grid size ${GRID_SIZE}, degree ${DEGREE}`);
+  for (const hidden of HIDDEN_LAYERS) {
+    const shape = [2].concat(hidden, [1]);
+    const network = kan.buildKANNetwork(shape, ["x", "y"], GRID_SIZE, DEGREE,
+        "xavier", kan.BaseFunctions.SILU);
+    const perEdge = time(input => perEdgeForward(network, input), inputs);
+    const shared = time(input => kan.kanForwardProp(network, input, false),
+        inputs);
+    // Both paths round differently, so compare relative to the output scale
+    let maxDiff = 0;
+    let maxOutput = 1;
+    perEdge.outputs.forEach((output, i) => {
+      maxDiff = Math.max(maxDiff, Math.abs(output - shared.outputs[i]));
+      maxOutput = Math.max(maxOutput, Math.abs(output));
+    });
+    const speedUp = perEdge.millis / Math.max(1, shared.millis);
+    console.log(`  ${shape.join("-")}: per edge ${perEdge.millis} ms, ` +
+        `shared basis ${shared.millis} ms, speed-up ${speedUp.toFixed(2)}x, ` +
+        `max relative difference ${(maxDiff / maxOutput).toExponential(1)}`);
+  }
+}
+
+run();
@@ -0,0 +1,202 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+/**
+ * Command-line experiment runner: trains the network a playground URL
+ * describes for a number of epochs, once per seed, and writes the loss
+ * curves (CSV), the final models (the JSON files the playground loads) and a
+ * summary of the runs.
+ *
+ * Run with "npm run experiment -- [options] [name=value ...]". The
+ * parameters are those of the URL hash, given one by one or as the whole
+ * hash (or URL) of a playground page:
+ *
+ *   npm run experiment -- --epochs=500 --seeds=1,2,3 --out=runs \
+ *       dataset=xor networkShape=4,2 numControlPoints=8 learningRate=0.01
+ */
+
+/// <reference path="seedrandom.d.ts" />
+
+// Installs Math.seedrandom, which the page loads as a script.
+import "seedrandom";
+import {State} from "./state";
+import {Evaluation, createTrainer} from "./trainer";
+import {saveModel} from "./model";
+
+// Node's globals; only the d3 typings are installed.
+declare const process: {argv: string[], exitCode: number};
+declare function require(name: string): any;
+
+const fs = require("fs");
+const path = require("path");
+
+/** Options of the runner, besides the playground parameters */
+interface RunnerOptions {
+  /** Number of epochs per run */
+  epochs: number;
+  /** Seeds of the runs; empty for the seed of the parameters */
+  seeds: string[];
+  /** Directory of the output files */
+  out: string;
+  /** Epochs between the rows of the loss curves */
+  every: number;
+  /** The playground parameters, as in the URL hash */
+  hash: string;
+}
+
+/** Summary of a finished run */
+interface RunSummary {
+  seed: string;
+  /** The full state of the run, as in the URL hash */
+  state: string;
+  final: Evaluation;
+  curveFile: string;
+  modelFile: string;
+}
+
+const USAGE = `Usage: npm run experiment -- [options] [name=value ...]
+
+Trains the network described by the playground parameters (the ones of the
+URL hash, e.g. dataset=xor networkShape=4,2 learningRate=0.01, or a whole
+playground URL) and writes the loss curve and the final model of every run.
+
+Options:
+  --epochs=N       epochs to train per run (default 1000)
+  --seeds=a,b,...  one run per seed (default: the seed parameter)
+  --out=DIR        directory of the output files (default "experiment")
+  --every=N        epochs between the rows of the loss curves (default 1)
+  --help           show this message`;
+
+/** Parses the command-line arguments; throws on invalid ones */
+function parseArguments(args: string[]): RunnerOptions {
+  const options: RunnerOptions =
+      {epochs: 1000, seeds: [], out: "experiment", every: 1, hash: ""};
+  const params: string[] = [];
+  for (const arg of args) {
+    if (arg.substr(0, 2) !== "--") {
+      // A URL, a hash or a single parameter.
+      const hash = arg.substr(arg.indexOf("#") + 1);
+      params.push.apply(params, hash.split("&").filter(p => p !== ""));
+      continue;
+    }
+    const [name, value] = arg.substr(2).split("=");
+    switch (name) {
+      case "epochs":
+      case "every":
+        options[name] = +value;
+        if (!(options[name] >= 1) || options[name] % 1 !== 0) {
+          throw new Error(`--${name} must be a positive integer`);
+        }
+        break;
+      case "seeds":
+        options.seeds = (value || "").split(",").filter(s => s !== "");
+        break;
+      case "out":
+        if (!value) {
+          throw new Error("--out needs a directory");
+        }
+        options.out = value;
+        break;
+      default:
+        throw new Error(`Unknown option --${name}`);
+    }
+  }
+  options.hash = params.join("&");
+  const problems = State.checkHash(options.hash);
+  // The playground's seeds are numbers, and so are the ones of its URLs.
+  const seeds = params.filter(p => p.split("=")[0] === "seed")
+      .map(p => p.substr("seed=".length)).concat(options.seeds);
+  for (const seed of seeds) {
+    if (isNaN(+seed)) {
+      problems.push(`Invalid seed "${seed}", expected a number`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join("\n"));
+  }
+  return options;
+}
+
+/** The loss curve as CSV, one row per recorded epoch */
+function toCsv(evaluations: Evaluation[]): string {
+  const rows = ["epoch,lossTrain,lossTest,regularization,learningRate"];
+  for (const e of evaluations) {
+    rows.push([e.iter, e.lossTrain, e.lossTest, e.regularization,
+        e.learningRate].join(","));
+  }
+  return rows.join("\n") + "\n";
+}
+
+/** Trains one network with the given seed and writes its files */
+function run(options: RunnerOptions, seed: string): RunSummary {
+  const state = State.deserializeState(options.hash);
+  if (seed != null) {
+    state.seed = seed;
+  }
+  const trainer = createTrainer(state);
+  const curve = [trainer.evaluate()];
+  trainer.onEpoch = evaluation => {
+    if (evaluation.iter % options.every === 0 ||
+        evaluation.iter === options.epochs) {
+      curve.push(evaluation);
+    }
+  };
+  trainer.train(options.epochs);
+
+  const name = `seed-${state.seed}`;
+  const curveFile = path.join(options.out, `${name}.loss.csv`);
+  const modelFile = path.join(options.out, `${name}.model.json`);
+  fs.writeFileSync(curveFile, toCsv(curve));
+  fs.writeFileSync(modelFile, saveModel(trainer.network, state.toHash()));
+  return {
+    seed: state.seed,
+    state: state.toHash(),
+    final: curve[curve.length - 1],
+    curveFile,
+    modelFile
+  };
+}
+
+function main(args: string[]): void {
+  if (args.indexOf("--help") !== -1) {
+    console.log(USAGE);
+    return;
+  }
+  let options: RunnerOptions;
+  try {
+    options = parseArguments(args);
+  } catch (e) {
+    console.error(`${e.message}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+  fs.mkdirSync(options.out, {recursive: true});
+  const seeds = options.seeds.length > 0 ? options.seeds : [null];
+  const runs: RunSummary[] = [];
+  for (const seed of seeds) {
+    const summary = run(options, seed);
+    runs.push(summary);
+    console.log(`seed ${summary.seed}: ` +
+        `train loss ${summary.final.lossTrain.toFixed(4)}, ` +
+        `test loss ${summary.final.lossTest.toFixed(4)} ` +
+        `after ${summary.final.iter} epochs`);
+  }
+  const summaryFile = path.join(options.out, "summary.json");
+  fs.writeFileSync(summaryFile,
+      JSON.stringify({epochs: options.epochs, runs}, null, 2) + "\n");
+  console.log(`Wrote ${summaryFile}`);
+}
+
+main(process.argv.slice(2));
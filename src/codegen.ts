@@ -0,0 +1,748 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {BaseFunctions, Extrapolations, KANEdge, KANNode} from "./kan";
+import {getRegistryKey} from "./snapshot";
+import {SymbolicFunctions} from "./symbolic";
+
+/**
+ * Code generation: turns a network into a self-contained source file that
+ * computes the same outputs as kanForwardProp, with the knots and control
+ * points embedded. The generated code mirrors the evaluation in kan.ts step
+ * by step (extrapolation, knot span search, the basis recursion and the
+ * order of the sums), so the results agree up to the rounding of exp and sin
+ * in the target language.
+ */
+
+/** Languages code can be generated for */
+export type CodeLanguage = "typescript" | "javascript" | "python";
+
+/** An input feature as an expression of the data coordinates x and y */
+export interface FeatureSource {
+  id: string;
+  /** JavaScript expression, e.g. "Math.sin(x)" */
+  code: string;
+  /** NumPy expression, e.g. "np.sin(x)" */
+  python: string;
+}
+
+/** The data of an active edge in the generated code */
+interface EdgeData {
+  /** Index of the source node in the previous layer */
+  source: number;
+  /** Name of the basis (see Bases), "bspline" for the knot vector */
+  basis: string;
+  degree: number;
+  range: number[];
+  /** Name of the extrapolation outside the range (see Extrapolations) */
+  extrapolation: string;
+  knots: number[];
+  coef: number[];
+  /** Key in BaseFunctions, null without a residual term */
+  base: string;
+  wb: number;
+  ws: number;
+  /** c * fn(a * x + b) + d, fn being a key in SymbolicFunctions */
+  symbolic: {fn: string, a: number, b: number, c: number, d: number};
+}
+
+function getEdgeData(edge: KANEdge, source: number): EdgeData {
+  const fn = edge.learnableFunction;
+  const fit = edge.symbolic;
+  let symbolic: EdgeData["symbolic"] = null;
+  if (fit != null) {
+    const key = getRegistryKey(SymbolicFunctions, fit.fn);
+    if (key == null) {
+      throw new Error(`Edge ${edge.id} uses the unknown symbolic function ` +
+          `${fit.fn.name}`);
+    }
+    symbolic = {fn: key, a: fit.a, b: fit.b, c: fit.c, d: fit.d};
+  }
+  const base = edge.hasResidual() ?
+      getRegistryKey(BaseFunctions, edge.baseFunction) : null;
+  if (edge.hasResidual() && base == null) {
+    throw new Error(`Edge ${edge.id} has an unknown base function`);
+  }
+  if (getRegistryKey(Extrapolations, fn.extrapolation) == null) {
+    throw new Error(`Edge ${edge.id} uses the unknown extrapolation ` +
+        `${fn.extrapolation.name}`);
+  }
+  return {
+    source,
+    basis: fn.basis.name,
+    degree: fn.degree,
+    range: [fn.inputRange[0], fn.inputRange[1]],
+    extrapolation: fn.extrapolation.name,
+    knots: fn.isSpline() ? fn.knotVector.slice() : [],
+    coef: Array.prototype.slice.call(fn.controlPoints),
+    base,
+    wb: edge.baseWeight,
+    ws: edge.splineWeight,
+    symbolic
+  };
+}
+
+/** The transform of a node's sum in the generated code (see KANNode) */
+interface NodeData {
+  /** Running statistics of a normalized node */
+  normalization: {mean: number, std: number};
+  affine: {scale: number, bias: number};
+}
+
+function getNodeData(node: KANNode): NodeData {
+  if (!node.isActive) {
+    return {normalization: null, affine: null};
+  }
+  return {
+    normalization: node.normalize ?
+        {mean: node.runningMean, std: node.getRunningStd()} : null,
+    affine: node.hasAffine ? {scale: node.scale, bias: node.bias} : null
+  };
+}
+
+/**
+ * The active input edges of every node, layer by layer without the inputs.
+ * Inactive nodes have no edges, so they output 0 like in KANNode.forward.
+ */
+function getLayerData(network: KANNode[][]): EdgeData[][][] {
+  return network.slice(1).map((layer, i) => layer.map(node => {
+    if (!node.isActive) {
+      return [];
+    }
+    return node.inputEdges.filter(edge => edge.isActive).map(edge =>
+        getEdgeData(edge, network[i].indexOf(edge.sourceNode)));
+  }));
+}
+
+/** Checks that the features are the inputs of the network, in order */
+function checkFeatures(network: KANNode[][], features: FeatureSource[]) {
+  const inputIds = network[0].map(node => node.id);
+  if (features.map(feature => feature.id).join(",") !== inputIds.join(",")) {
+    throw new Error(`The features ${features.map(f => f.id).join(", ")} ` +
+        `do not match the inputs ${inputIds.join(", ")} of the network`);
+  }
+}
+
+/** The node data, layer by layer without the inputs, one node per line */
+function formatNodes(network: KANNode[][],
+    format: (value: any) => string): string {
+  return "[\n" + network.slice(1).map(layer => "  [\n" + layer.map(node =>
+      `    ${format(getNodeData(node))}`).join(",\n") + "\n  ]").join(",\n") +
+      "\n]";
+}
+
+/** The layer data, one node per line, as a literal of either language */
+function formatLayers(layers: EdgeData[][][],
+    format: (value: any) => string): string {
+  return "[\n" + layers.map(layer => "  [\n" + layer.map(edges =>
+      "    [\n" + edges.map(edge => `      ${format(edge)}`).join(",\n") +
+      "\n    ]").join(",\n") + "\n  ]").join(",\n") + "\n]";
+}
+
+/** A value as a Python literal */
+function toPython(value: any): string {
+  if (value == null) {
+    return "None";
+  }
+  if (typeof value === "boolean") {
+    return value ? "True" : "False";
+  }
+  if (typeof value === "number" || typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  if (value instanceof Array) {
+    return `[${value.map(toPython).join(", ")}]`;
+  }
+  const items: string[] = [];
+  for (const key in value) {
+    items.push(`${JSON.stringify(key)}: ${toPython(value[key])}`);
+  }
+  return `{${items.join(", ")}}`;
+}
+
+/**
+ * Source of a dependency-free ES module exporting predict(x, y), which
+ * returns the outputs of the network for the data point (x, y). With
+ * typed set, the source is TypeScript.
+ */
+export function generateJavaScript(network: KANNode[][],
+    features: FeatureSource[], typed: boolean): string {
+  checkFeatures(network, features);
+  // Type annotations, left out for JavaScript
+  const t = (annotation: string) => typed ? annotation : "";
+  const layers = formatLayers(getLayerData(network), JSON.stringify);
+  const nodes = formatNodes(network, JSON.stringify);
+  return `/**
+ * Kolmogorov-Arnold network exported from the KAN playground.
+ * predict(x, y) returns the outputs of the network for the data point (x, y);
+ * its input features are ${features.map(f => f.id).join(", ")}.
+ */
+${typed ? `
+interface Edge {
+  source: number;
+  basis: string;
+  degree: number;
+  range: number[];
+  extrapolation: string;
+  knots: number[];
+  coef: number[];
+  base: string | null;
+  wb: number;
+  ws: number;
+  symbolic: {fn: string, a: number, b: number, c: number, d: number} | null;
+}
+
+interface Node {
+  normalization: {mean: number, std: number} | null;
+  affine: {scale: number, bias: number} | null;
+}
+` : ""}
+/** Active input edges of every node, layer by layer */
+const LAYERS${t(": Edge[][][]")} = ${layers};
+
+/** Normalization, scale and bias of every node, layer by layer */
+const NODES${t(": Node[][]")} = ${nodes};
+
+const BASE_FUNCTIONS${t(": {[key: string]: (x: number) => number}")} = {
+  SILU: x => x / (1 + Math.exp(-x)),
+  IDENTITY: x => x,
+  TANH: x => {
+    if (x === Infinity) {
+      return 1;
+    } else if (x === -Infinity) {
+      return -1;
+    }
+    const e2x = Math.exp(2 * x);
+    return (e2x - 1) / (e2x + 1);
+  }
+};
+
+const SYMBOLIC_FUNCTIONS${t(": {[key: string]: (x: number) => number}")} = {
+  X: x => x,
+  X2: x => x * x,
+  X3: x => x * x * x,
+  X4: x => x * x * x * x,
+  EXP: x => Math.exp(Math.min(x, 50)),
+  SIN: x => Math.sin(x),
+  TANH: x => {
+    if (x > 20) {
+      return 1;
+    } else if (x < -20) {
+      return -1;
+    }
+    const e2x = Math.exp(2 * x);
+    return (e2x - 1) / (e2x + 1);
+  },
+  ABS: x => Math.abs(x),
+  GAUSSIAN: x => Math.exp(-x * x)
+};
+
+function centers(n${t(": number")}, range${t(": number[]")})${t(": number[]")} {
+  const result${t(": number[]")} = [];
+  for (let i = 0; i < n; i++) {
+    result.push(n === 1 ? (range[0] + range[1]) / 2 :
+        range[0] + (range[1] - range[0]) * i / (n - 1));
+  }
+  return result;
+}
+
+/** Values of the n basis functions at x, for the bases without knots */
+function basisValues(basis${t(": string")}, x${t(": number")}, n${t(": number")},
+    range${t(": number[]")})${t(": number[]")} {
+  const values${t(": number[]")} = [];
+  const h = (range[1] - range[0]) / Math.max(1, n - 1);
+  if (basis === "chebyshev") {
+    const t = 2 * (x - range[0]) / (range[1] - range[0]) - 1;
+    for (let k = 0; k < n; k++) {
+      values.push(k === 0 ? 1 : k === 1 ? t :
+          2 * t * values[k - 1] - values[k - 2]);
+    }
+  } else if (basis === "rbf") {
+    for (const c of centers(n, range)) {
+      const u = (x - c) / h;
+      values.push(Math.exp(-u * u));
+    }
+  } else if (basis === "fourier") {
+    const t = Math.PI * (x - range[0]) / (range[1] - range[0]);
+    for (let i = 0; i < n; i++) {
+      const k = Math.floor((i + 1) / 2);
+      values.push(i === 0 ? 1 : i % 2 === 1 ? Math.cos(k * t) :
+          Math.sin(k * t));
+    }
+  } else if (basis === "mexican-hat") {
+    for (const c of centers(n, range)) {
+      const u = (x - c) / h;
+      values.push((1 - u * u) * Math.exp(-u * u / 2));
+    }
+  } else {
+    throw new Error("Unknown basis " + basis);
+  }
+  return values;
+}
+
+/** Derivatives of the n basis functions at x, for the bases without knots */
+function basisDerivatives(basis${t(": string")}, x${t(": number")}, n${t(": number")},
+    range${t(": number[]")})${t(": number[]")} {
+  const derivatives${t(": number[]")} = [];
+  const h = (range[1] - range[0]) / Math.max(1, n - 1);
+  if (basis === "chebyshev") {
+    // T_k' = k U_{k-1}, with the Chebyshev polynomials U of the 2nd kind
+    const t = 2 * (x - range[0]) / (range[1] - range[0]) - 1;
+    const scale = 2 / (range[1] - range[0]);
+    let uPrev = 0;
+    let u = 1;
+    for (let k = 0; k < n; k++) {
+      derivatives.push(k * (k === 0 ? 0 : uPrev) * scale);
+      const next = k === 0 ? 2 * t : 2 * t * u - uPrev;
+      uPrev = u;
+      u = next;
+    }
+  } else if (basis === "rbf") {
+    for (const c of centers(n, range)) {
+      const u = (x - c) / h;
+      derivatives.push(-2 * u / h * Math.exp(-u * u));
+    }
+  } else if (basis === "fourier") {
+    const scale = Math.PI / (range[1] - range[0]);
+    const t = scale * (x - range[0]);
+    for (let i = 0; i < n; i++) {
+      const k = Math.floor((i + 1) / 2);
+      derivatives.push(i === 0 ? 0 : i % 2 === 1 ?
+          -k * scale * Math.sin(k * t) : k * scale * Math.cos(k * t));
+    }
+  } else if (basis === "mexican-hat") {
+    for (const c of centers(n, range)) {
+      const u = (x - c) / h;
+      derivatives.push((u * u * u - 3 * u) * Math.exp(-u * u / 2) / h);
+    }
+  } else {
+    throw new Error("Unknown basis " + basis);
+  }
+  return derivatives;
+}
+
+/** Index of the knot span containing x */
+function findKnotSpan(knots${t(": number[]")}, n${t(": number")}, p${t(": number")},
+    x${t(": number")})${t(": number")} {
+  if (x >= knots[n + 1]) {
+    return n;
+  }
+  if (x <= knots[p]) {
+    return p;
+  }
+  let low = p;
+  let high = n + 1;
+  let mid = Math.floor((low + high) / 2);
+  while (x < knots[mid] || x >= knots[mid + 1]) {
+    if (x < knots[mid]) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+    mid = Math.floor((low + high) / 2);
+  }
+  return mid;
+}
+
+/**
+ * The non-zero B-splines of the given degree at x in the knot span
+ * (Algorithm A2.2 of The NURBS Book)
+ */
+function bsplineValues(knots${t(": number[]")}, span${t(": number")}, x${t(": number")},
+    degree${t(": number")})${t(": number[]")} {
+  const values${t(": number[]")} = [1];
+  const left${t(": number[]")} = [];
+  const right${t(": number[]")} = [];
+  for (let j = 1; j <= degree; j++) {
+    left[j] = x - knots[span + 1 - j];
+    right[j] = knots[span + j] - x;
+    let saved = 0;
+    for (let r = 0; r < j; r++) {
+      const temp = values[r] / (right[r + 1] + left[j - r]);
+      values[r] = saved + right[r + 1] * temp;
+      saved = left[j - r] * temp;
+    }
+    values[j] = saved;
+  }
+  return values;
+}
+
+/** Derivatives of the non-zero B-splines of degree p at x in the knot span */
+function bsplineDerivatives(knots${t(": number[]")}, span${t(": number")}, x${t(": number")},
+    p${t(": number")})${t(": number[]")} {
+  if (p === 0) {
+    return [0];
+  }
+  const lower = bsplineValues(knots, span, x, p - 1);
+  const derivatives${t(": number[]")} = [];
+  for (let j = 0; j <= p; j++) {
+    const i = span - p + j;
+    let derivative = 0;
+    if (j >= 1) {
+      const denom = knots[i + p] - knots[i];
+      if (denom > 0) {
+        derivative += p * lower[j - 1] / denom;
+      }
+    }
+    if (j <= p - 1) {
+      const denom = knots[i + p + 1] - knots[i + 1];
+      if (denom > 0) {
+        derivative -= p * lower[j] / denom;
+      }
+    }
+    derivatives.push(derivative);
+  }
+  return derivatives;
+}
+
+/**
+ * Where the function of the edge is evaluated for x: the value there is
+ * scale * (f(t) + offset * f'(t)), for t inside the range
+ */
+function extrapolate(edge${t(": Edge")}, x${t(": number")})${t(": {t: number, offset: number, scale: number}")} {
+  const lo = edge.range[0];
+  const hi = edge.range[1];
+  if (x >= lo && x <= hi) {
+    return {t: x, offset: 0, scale: 1};
+  }
+  const t = Math.max(lo, Math.min(hi, x));
+  if (edge.extrapolation === "linear") {
+    return {t, offset: x - t, scale: 1};
+  } else if (edge.extrapolation === "periodic") {
+    let u = (x - lo) % (hi - lo);
+    if (u < 0) {
+      u += hi - lo;
+    }
+    return {t: lo + u, offset: 0, scale: 1};
+  }
+  return {t, offset: 0, scale: edge.extrapolation === "zero" ? 0 : 1};
+}
+
+/** The learnable function of the edge, without the residual term */
+function spline(edge${t(": Edge")}, x${t(": number")})${t(": number")} {
+  const point = extrapolate(edge, x);
+  const coef = edge.coef;
+  const isSpline = edge.basis === "bspline";
+  // Index of the first non-zero basis function
+  const span = isSpline ?
+      findKnotSpan(edge.knots, coef.length - 1, edge.degree, point.t) : 0;
+  const start = isSpline ? span - edge.degree : 0;
+  const values = isSpline ?
+      bsplineValues(edge.knots, span, point.t, edge.degree) :
+      basisValues(edge.basis, point.t, coef.length, edge.range);
+  if (point.offset !== 0) {
+    // Continue every basis function along its slope at the boundary
+    const derivatives = isSpline ?
+        bsplineDerivatives(edge.knots, span, point.t, edge.degree) :
+        basisDerivatives(edge.basis, point.t, coef.length, edge.range);
+    for (let i = 0; i < values.length; i++) {
+      values[i] += point.offset * derivatives[i];
+    }
+  }
+  if (point.scale !== 1) {
+    for (let i = 0; i < values.length; i++) {
+      values[i] *= point.scale;
+    }
+  }
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += coef[start + i] * values[i];
+  }
+  return sum;
+}
+
+function evaluateEdge(edge${t(": Edge")}, x${t(": number")})${t(": number")} {
+  const fit = edge.symbolic;
+  if (fit) {
+    return fit.c * SYMBOLIC_FUNCTIONS[fit.fn](fit.a * x + fit.b) + fit.d;
+  }
+  const splineOutput = spline(edge, x);
+  if (edge.base == null) {
+    return splineOutput;
+  }
+  return edge.wb * BASE_FUNCTIONS[edge.base](x) + edge.ws * splineOutput;
+}
+
+/** Output of a node from the sum of its input edges */
+function nodeOutput(node${t(": Node")}, sum${t(": number")})${t(": number")} {
+  const normalized = node.normalization ?
+      (sum - node.normalization.mean) / node.normalization.std : sum;
+  return node.affine ?
+      node.affine.scale * normalized + node.affine.bias : normalized;
+}
+
+export function predict(x${t(": number")}, y${t(": number")})${t(": number[]")} {
+  let outputs${t(": number[]")} = [
+${features.map(f => `    ${f.code}`).join(",\n")}
+  ];
+  LAYERS.forEach((layer, l) => {
+    const inputs = outputs;
+    outputs = layer.map((edges, j) => {
+      let sum = 0;
+      for (const edge of edges) {
+        sum += evaluateEdge(edge, inputs[edge.source]);
+      }
+      return nodeOutput(NODES[l][j], sum);
+    });
+  });
+  return outputs;
+}
+`;
+}
+
+/**
+ * Source of a Python module with a NumPy-only predict(x, y), which takes
+ * arrays of data coordinates and returns the outputs of the network with
+ * shape (points, outputs).
+ */
+export function generatePython(network: KANNode[][],
+    features: FeatureSource[]): string {
+  checkFeatures(network, features);
+  const layers = formatLayers(getLayerData(network), toPython);
+  const nodes = formatNodes(network, toPython);
+  return `"""Kolmogorov-Arnold network exported from the KAN playground.
+
+predict(x, y) returns the outputs of the network for the data points (x, y);
+its input features are ${features.map(f => f.id).join(", ")}.
+"""
+
+import numpy as np
+
+# Active input edges of every node, layer by layer
+LAYERS = ${layers}
+
+# Normalization, scale and bias of every node, layer by layer
+NODES = ${nodes}
+
+
+def _tanh(x):
+    e2x = np.exp(2 * x)
+    return (e2x - 1) / (e2x + 1)
+
+
+BASE_FUNCTIONS = {
+    "SILU": lambda x: x / (1 + np.exp(-x)),
+    "IDENTITY": lambda x: x,
+    "TANH": _tanh,
+}
+
+SYMBOLIC_FUNCTIONS = {
+    "X": lambda x: x,
+    "X2": lambda x: x * x,
+    "X3": lambda x: x * x * x,
+    "X4": lambda x: x * x * x * x,
+    "EXP": lambda x: np.exp(np.minimum(x, 50)),
+    "SIN": np.sin,
+    "TANH": lambda x: np.where(x > 20, 1.0, np.where(
+        x < -20, -1.0, _tanh(np.clip(x, -20, 20)))),
+    "ABS": np.abs,
+    "GAUSSIAN": lambda x: np.exp(-x * x),
+}
+
+
+def _centers(n, lo, hi):
+    if n == 1:
+        return [(lo + hi) / 2]
+    return [lo + (hi - lo) * i / (n - 1) for i in range(n)]
+
+
+def _basis_values(basis, x, n, lo, hi):
+    """Values of the n basis functions at x, for the bases without knots."""
+    h = (hi - lo) / max(1, n - 1)
+    if basis == "chebyshev":
+        t = 2 * (x - lo) / (hi - lo) - 1
+        values = []
+        for k in range(n):
+            values.append(np.ones_like(x) if k == 0 else t if k == 1 else
+                          2 * t * values[k - 1] - values[k - 2])
+        return values
+    if basis == "rbf":
+        return [np.exp(-((x - c) / h) * ((x - c) / h))
+                for c in _centers(n, lo, hi)]
+    if basis == "fourier":
+        t = np.pi * (x - lo) / (hi - lo)
+        return [np.ones_like(x) if i == 0 else
+                np.cos((i + 1) // 2 * t) if i % 2 == 1 else
+                np.sin((i + 1) // 2 * t) for i in range(n)]
+    if basis == "mexican-hat":
+        return [(1 - ((x - c) / h) * ((x - c) / h)) *
+                np.exp(-((x - c) / h) * ((x - c) / h) / 2)
+                for c in _centers(n, lo, hi)]
+    raise ValueError("Unknown basis " + basis)
+
+
+def _basis_derivatives(basis, x, n, lo, hi):
+    """Derivatives of the n basis functions at x, for the bases without knots."""
+    h = (hi - lo) / max(1, n - 1)
+    if basis == "chebyshev":
+        # T_k' = k U_{k-1}, with the Chebyshev polynomials U of the 2nd kind
+        t = 2 * (x - lo) / (hi - lo) - 1
+        scale = 2 / (hi - lo)
+        u = [np.ones_like(x), 2 * t]
+        for k in range(2, n):
+            u.append(2 * t * u[k - 1] - u[k - 2])
+        return [np.zeros_like(x) if k == 0 else k * u[k - 1] * scale
+                for k in range(n)]
+    if basis == "rbf":
+        return [-2 * ((x - c) / h) / h * np.exp(-((x - c) / h) * ((x - c) / h))
+                for c in _centers(n, lo, hi)]
+    if basis == "fourier":
+        scale = np.pi / (hi - lo)
+        t = scale * (x - lo)
+        return [np.zeros_like(x) if i == 0 else
+                -((i + 1) // 2) * scale * np.sin((i + 1) // 2 * t) if i % 2 == 1
+                else (i + 1) // 2 * scale * np.cos((i + 1) // 2 * t)
+                for i in range(n)]
+    if basis == "mexican-hat":
+        return [(((x - c) / h) ** 3 - 3 * ((x - c) / h)) *
+                np.exp(-((x - c) / h) * ((x - c) / h) / 2) / h
+                for c in _centers(n, lo, hi)]
+    raise ValueError("Unknown basis " + basis)
+
+
+def _bspline_values(knots, span, x, degree):
+    """The non-zero B-splines of the degree at x in the knot spans
+    (Algorithm A2.2 of The NURBS Book)."""
+    values = [np.ones_like(x)] + [None] * degree
+    left = [None] * (degree + 1)
+    right = [None] * (degree + 1)
+    for j in range(1, degree + 1):
+        left[j] = x - knots[span + 1 - j]
+        right[j] = knots[span + j] - x
+        saved = np.zeros_like(x)
+        for r in range(j):
+            temp = values[r] / (right[r + 1] + left[j - r])
+            values[r] = saved + right[r + 1] * temp
+            saved = left[j - r] * temp
+        values[j] = saved
+    return values
+
+
+def _ratio(a, b):
+    """a / b where b > 0, 0 elsewhere."""
+    return np.where(b > 0, a / np.where(b > 0, b, 1), 0.0)
+
+
+def _bspline_derivatives(knots, span, x, p):
+    """Derivatives of the non-zero B-splines of degree p at x."""
+    if p == 0:
+        return [np.zeros_like(x)]
+    lower = _bspline_values(knots, span, x, p - 1)
+    derivatives = []
+    for j in range(p + 1):
+        i = span - p + j
+        derivative = np.zeros_like(x)
+        if j >= 1:
+            derivative = derivative + _ratio(p * lower[j - 1],
+                                             knots[i + p] - knots[i])
+        if j <= p - 1:
+            derivative = derivative - _ratio(p * lower[j],
+                                             knots[i + p + 1] - knots[i + 1])
+        derivatives.append(derivative)
+    return derivatives
+
+
+def _extrapolate(edge, x):
+    """The points t inside the range the function is evaluated at for x, and
+    the offset and scale of the value scale * (f(t) + offset * f'(t))."""
+    lo, hi = edge["range"]
+    inside = (x >= lo) & (x <= hi)
+    t = np.maximum(lo, np.minimum(hi, x))
+    offset = np.zeros_like(x)
+    scale = np.ones_like(x)
+    if edge["extrapolation"] == "linear":
+        offset = x - t
+    elif edge["extrapolation"] == "periodic":
+        t = np.where(inside, x, lo + np.mod(x - lo, hi - lo))
+    elif edge["extrapolation"] == "zero":
+        scale = np.where(inside, 1.0, 0.0)
+    return t, offset, scale
+
+
+def _spline(edge, x):
+    """The learnable function of the edge, without the residual term."""
+    lo, hi = edge["range"]
+    t, offset, scale = _extrapolate(edge, x)
+    coef = np.asarray(edge["coef"], dtype=float)
+    if edge["basis"] != "bspline":
+        start = 0
+        values = _basis_values(edge["basis"], t, len(coef), lo, hi)
+        if edge["extrapolation"] == "linear":
+            derivatives = _basis_derivatives(edge["basis"], t, len(coef),
+                                             lo, hi)
+    else:
+        knots = np.asarray(edge["knots"], dtype=float)
+        p = edge["degree"]
+        span = np.clip(np.searchsorted(knots, t, side="right") - 1, p,
+                       len(coef) - 1)
+        start = span - p
+        values = _bspline_values(knots, span, t, p)
+        if edge["extrapolation"] == "linear":
+            derivatives = _bspline_derivatives(knots, span, t, p)
+    total = np.zeros_like(x)
+    for i in range(len(values)):
+        value = values[i]
+        if edge["extrapolation"] == "linear":
+            # Continue every basis function along its slope at the boundary
+            value = value + offset * derivatives[i]
+        total = total + coef[start + i] * (scale * value)
+    return total
+
+
+def _evaluate_edge(edge, x):
+    fit = edge["symbolic"]
+    if fit is not None:
+        return (fit["c"] * SYMBOLIC_FUNCTIONS[fit["fn"]](fit["a"] * x + fit["b"])
+                + fit["d"])
+    spline = _spline(edge, x)
+    if edge["base"] is None:
+        return spline
+    return edge["wb"] * BASE_FUNCTIONS[edge["base"]](x) + edge["ws"] * spline
+
+
+def _node_output(node, total):
+    """Output of a node from the sum of its input edges."""
+    if node["normalization"] is not None:
+        total = ((total - node["normalization"]["mean"])
+                 / node["normalization"]["std"])
+    if node["affine"] is not None:
+        total = node["affine"]["scale"] * total + node["affine"]["bias"]
+    return total
+
+
+def predict(x, y):
+    x = np.asarray(x, dtype=float)
+    y = np.asarray(y, dtype=float)
+    outputs = [
+${features.map(f => `        ${f.python} + np.zeros_like(x),`).join("\n")}
+    ]
+    for layer, nodes in zip(LAYERS, NODES):
+        inputs = outputs
+        outputs = []
+        for edges, node in zip(layer, nodes):
+            total = np.zeros_like(x)
+            for edge in edges:
+                total = total + _evaluate_edge(edge, inputs[edge["source"]])
+            outputs.append(_node_output(node, total))
+    return np.stack(outputs, axis=-1)
+`;
+}
+
+/** Generated source of the network in the given language */
+export function generateCode(network: KANNode[][], features: FeatureSource[],
+    language: CodeLanguage): string {
+  return language === "python" ? generatePython(network, features) :
+      generateJavaScript(network, features, language === "typescript");
+}
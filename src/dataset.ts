@@ -206,6 +206,85 @@ export function classifyXORData(numSamples: number, noise: number):
   return points;
 }
 
+/*
+ * Multi-class datasets. The label of an example is its class index
+ * 0, 1, ..., numClasses - 1.
+ */
+
+export function classifyThreeGaussData(numSamples: number, noise: number):
+    Example2D[] {
+  let points: Example2D[] = [];
+
+  let varianceScale = d3.scale.linear().domain([0, .5]).range([0.5, 4]);
+  let variance = varianceScale(noise);
+
+  // Three Gaussians evenly spaced on a circle of radius 3.
+  for (let label = 0; label < 3; label++) {
+    let angle = 2 * Math.PI * label / 3 + Math.PI / 2;
+    let cx = 3 * Math.cos(angle);
+    let cy = 3 * Math.sin(angle);
+    for (let i = 0; i < numSamples / 3; i++) {
+      let x = normalRandom(cx, variance);
+      let y = normalRandom(cy, variance);
+      points.push({x, y, label});
+    }
+  }
+  return points;
+}
+
+export function classifyThreeSpiralData(numSamples: number, noise: number):
+    Example2D[] {
+  let points: Example2D[] = [];
+  let n = numSamples / 3;
+
+  for (let label = 0; label < 3; label++) {
+    let deltaT = 2 * Math.PI * label / 3;
+    for (let i = 0; i < n; i++) {
+      let r = i / n * 5;
+      let t = 1.25 * i / n * 2 * Math.PI + deltaT;
+      let x = r * Math.sin(t) + randUniform(-1, 1) * noise;
+      let y = r * Math.cos(t) + randUniform(-1, 1) * noise;
+      points.push({x, y, label});
+    }
+  }
+  return points;
+}
+
+export function classifyPieData(numSamples: number, noise: number):
+    Example2D[] {
+  let numSlices = 4;
+  function getPieLabel(p: Point) {
+    let angle = Math.atan2(p.y, p.x) + Math.PI;
+    return Math.min(numSlices - 1,
+        Math.floor(angle / (2 * Math.PI) * numSlices));
+  }
+
+  let points: Example2D[] = [];
+  let radius = 5;
+  for (let i = 0; i < numSamples; i++) {
+    let r = randUniform(0.5, radius);
+    let angle = randUniform(0, 2 * Math.PI);
+    let x = r * Math.sin(angle);
+    let y = r * Math.cos(angle);
+    let noiseX = randUniform(-radius, radius) * noise;
+    let noiseY = randUniform(-radius, radius) * noise;
+    let label = getPieLabel({x: x + noiseX, y: y + noiseY});
+    points.push({x, y, label});
+  }
+  return points;
+}
+
+/**
+ * Number of classes of a multi-class dataset: the largest label plus one.
+ */
+export function countClasses(points: Example2D[]): number {
+  let maxLabel = 0;
+  for (let point of points) {
+    maxLabel = Math.max(maxLabel, point.label);
+  }
+  return maxLabel + 1;
+}
+
 /**
  * Returns a sample from a uniform [a, b] distribution.
  * Uses the seedrandom library as the random generator.
@@ -0,0 +1,458 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {
+  KANEdge,
+  KANNode,
+  SymbolicFit,
+  getKANOutputNodes,
+  solveLinearSystem
+} from "./kan";
+import {
+  pickSymbolicFit,
+  sampleEdgeFunction,
+  suggestSymbolicFits
+} from "./symbolic";
+
+/** A closed-form expression over the network inputs. */
+export type Expr =
+  {type: "const", value: number} |
+  {type: "var", name: string} |
+  {type: "sum", terms: Expr[]} |
+  {type: "product", factors: Expr[]} |
+  {type: "pow", base: Expr, exponent: number} |
+  {type: "call", fn: string, arg: Expr};
+
+/** How an input variable is written in the two output formats. */
+export interface VariableName {
+  text: string;
+  latex: string;
+}
+
+/** A network formula in both output formats. */
+export interface Formula {
+  expr: Expr;
+  text: string;
+  latex: string;
+}
+
+/** Functions that may appear in a call expression. */
+const FUNCTIONS: {[name: string]: (x: number) => number} = {
+  "sin": Math.sin,
+  "exp": x => Math.exp(Math.min(x, 50)),
+  "tanh": x => {
+    const e2x = Math.exp(2 * Math.max(-20, Math.min(20, x)));
+    return (e2x - 1) / (e2x + 1);
+  },
+  "abs": Math.abs
+};
+
+/** Absolute values below this are treated as zero when simplifying. */
+const ZERO_TOLERANCE = 1e-4;
+
+function constant(value: number): Expr {
+  return {type: "const", value};
+}
+
+function sum(terms: Expr[]): Expr {
+  return {type: "sum", terms};
+}
+
+function product(factors: Expr[]): Expr {
+  return {type: "product", factors};
+}
+
+/** Evaluate an expression for the given variable values. */
+export function evaluateExpr(expr: Expr,
+    variables: {[name: string]: number}): number {
+  switch (expr.type) {
+    case "const":
+      return expr.value;
+    case "var":
+      return variables[expr.name];
+    case "sum":
+      return expr.terms.reduce(
+          (total, term) => total + evaluateExpr(term, variables), 0);
+    case "product":
+      return expr.factors.reduce(
+          (total, factor) => total * evaluateExpr(factor, variables), 1);
+    case "pow":
+      return Math.pow(evaluateExpr(expr.base, variables), expr.exponent);
+    case "call":
+      return FUNCTIONS[expr.fn](evaluateExpr(expr.arg, variables));
+  }
+}
+
+/** Expression of c * f(a * x + b) + d for a symbolic fit. */
+function symbolicFitToExpr(fit: SymbolicFit, x: Expr): Expr {
+  const arg = sum([product([constant(fit.a), x]), constant(fit.b)]);
+  const name = fit.fn.name;
+  let term: Expr;
+  if (name === "x") {
+    term = arg;
+  } else if (name.charAt(0) === "x") {
+    term = {type: "pow", base: arg, exponent: +name.slice(2)};
+  } else if (name === "gaussian") {
+    term = {type: "call", fn: "exp",
+        arg: product([constant(-1), {type: "pow", base: arg, exponent: 2}])};
+  } else {
+    term = {type: "call", fn: name, arg};
+  }
+  return sum([product([constant(fit.c), term]), constant(fit.d)]);
+}
+
+/**
+ * Least-squares polynomial of the given degree through the points, as its
+ * coefficients (constant first) and the R² of the fit.
+ */
+function fitPolynomial(xs: number[], ys: number[],
+    degree: number): {coefficients: number[], r2: number} {
+  const n = degree + 1;
+  const ata: number[][] = [];
+  const aty: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const row: number[] = [];
+    for (let j = 0; j < n; j++) {
+      row.push(0);
+    }
+    ata.push(row);
+    aty.push(0);
+  }
+  xs.forEach((x, k) => {
+    for (let i = 0; i < n; i++) {
+      aty[i] += Math.pow(x, i) * ys[k];
+      for (let j = 0; j < n; j++) {
+        ata[i][j] += Math.pow(x, i + j);
+      }
+    }
+  });
+  const coefficients = solveLinearSystem(ata, aty);
+  if (coefficients == null) {
+    return null;
+  }
+  const meanY = ys.reduce((total, y) => total + y, 0) / ys.length;
+  let ssRes = 0;
+  let ssTot = 0;
+  xs.forEach((x, k) => {
+    let y = 0;
+    for (let i = 0; i < n; i++) {
+      y += coefficients[i] * Math.pow(x, i);
+    }
+    ssRes += (ys[k] - y) * (ys[k] - y);
+    ssTot += (ys[k] - meanY) * (ys[k] - meanY);
+  });
+  return {coefficients, r2: ssTot > 1e-12 ? 1 - ssRes / ssTot : 1};
+}
+
+/**
+ * Expression approximating the edge function applied to x: the formula the
+ * edge is fixed to, or else the simplest of the symbolic library fits and
+ * the polynomials up to degree 3 whose R² is within tolerance of the best.
+ */
+export function edgeToExpr(edge: KANEdge, x: Expr,
+    tolerance: number = 0.001): Expr {
+  if (edge.symbolic) {
+    return symbolicFitToExpr(edge.symbolic, x);
+  }
+  const candidates: Array<{expr: Expr, r2: number, complexity: number}> = [];
+  const fit = pickSymbolicFit(suggestSymbolicFits(edge), tolerance);
+  candidates.push({expr: symbolicFitToExpr(fit, x), r2: fit.r2,
+      complexity: fit.fn.complexity});
+  const {xs, ys} = sampleEdgeFunction(edge);
+  for (let degree = 1; degree <= 3; degree++) {
+    const polynomial = fitPolynomial(xs, ys, degree);
+    if (polynomial == null) {
+      continue;
+    }
+    const terms: Expr[] = polynomial.coefficients.map((c, i) => i === 0 ?
+        constant(c) :
+        product([constant(c), {type: "pow", base: x, exponent: i}]));
+    candidates.push({expr: sum(terms), r2: polynomial.r2, complexity: degree});
+  }
+
+  const bestR2 = Math.max(...candidates.map(candidate => candidate.r2));
+  let pick = candidates[0];
+  for (const candidate of candidates) {
+    if (candidate.r2 >= bestR2 - tolerance &&
+        (pick.r2 < bestR2 - tolerance ||
+         candidate.complexity < pick.complexity)) {
+      pick = candidate;
+    }
+  }
+  return pick.expr;
+}
+
+/** Key that identifies equal expressions. */
+function exprKey(expr: Expr): string {
+  return toText(expr, 15);
+}
+
+/**
+ * Simplify an expression: flatten nested sums and products, fold constants,
+ * distribute constant factors over sums, merge like terms and drop terms
+ * whose coefficient is (nearly) zero.
+ */
+export function simplify(expr: Expr): Expr {
+  switch (expr.type) {
+    case "const":
+    case "var":
+      return expr;
+    case "pow": {
+      const base = simplify(expr.base);
+      if (expr.exponent === 0) {
+        return constant(1);
+      } else if (base.type === "const") {
+        return constant(Math.pow(base.value, expr.exponent));
+      } else if (expr.exponent === 1) {
+        return base;
+      } else if (base.type === "pow") {
+        return {type: "pow", base: base.base,
+            exponent: base.exponent * expr.exponent};
+      } else if (base.type === "product" && base.factors[0].type === "const") {
+        // (c * t)^k = c^k * t^k
+        const c = (base.factors[0] as {type: "const", value: number}).value;
+        return simplify(product([
+          constant(Math.pow(c, expr.exponent)),
+          {type: "pow", base: product(base.factors.slice(1)),
+              exponent: expr.exponent}
+        ]));
+      }
+      return {type: "pow", base, exponent: expr.exponent};
+    }
+    case "call": {
+      const arg = simplify(expr.arg);
+      if (arg.type === "const") {
+        return constant(FUNCTIONS[expr.fn](arg.value));
+      }
+      return {type: "call", fn: expr.fn, arg};
+    }
+    case "product": {
+      let coefficient = 1;
+      let factors: Expr[] = [];
+      const addFactor = (factor: Expr) => {
+        if (factor.type === "const") {
+          coefficient *= factor.value;
+        } else if (factor.type === "product") {
+          factor.factors.forEach(addFactor);
+        } else {
+          factors.push(factor);
+        }
+      };
+      expr.factors.map(simplify).forEach(addFactor);
+      if (Math.abs(coefficient) < ZERO_TOLERANCE) {
+        return constant(0);
+      } else if (factors.length === 0) {
+        return constant(coefficient);
+      } else if (factors.length === 1 && factors[0].type === "sum") {
+        // c * (t1 + t2) = c * t1 + c * t2
+        const terms = (factors[0] as {type: "sum", terms: Expr[]}).terms;
+        return simplify(sum(terms.map(
+            term => product([constant(coefficient), term]))));
+      } else if (coefficient === 1 && factors.length === 1) {
+        return factors[0];
+      }
+      return product(coefficient === 1 ? factors :
+          [constant(coefficient) as Expr].concat(factors));
+    }
+    case "sum": {
+      let total = 0;
+      const keys: string[] = [];
+      const coefficients: {[key: string]: number} = {};
+      const rests: {[key: string]: Expr} = {};
+      const addTerm = (term: Expr) => {
+        if (term.type === "const") {
+          total += term.value;
+        } else if (term.type === "sum") {
+          term.terms.forEach(addTerm);
+        } else {
+          // Split the term into its constant coefficient and the rest.
+          let coefficient = 1;
+          let rest: Expr = term;
+          if (term.type === "product" && term.factors[0].type === "const") {
+            coefficient = (term.factors[0] as {type: "const", value: number})
+                .value;
+            rest = term.factors.length === 2 ? term.factors[1] :
+                product(term.factors.slice(1));
+          }
+          const key = exprKey(rest);
+          if (!(key in coefficients)) {
+            keys.push(key);
+            coefficients[key] = 0;
+            rests[key] = rest;
+          }
+          coefficients[key] += coefficient;
+        }
+      };
+      expr.terms.map(simplify).forEach(addTerm);
+      const terms: Expr[] = [];
+      for (const key of keys) {
+        const coefficient = coefficients[key];
+        if (Math.abs(coefficient) < ZERO_TOLERANCE) {
+          continue;
+        }
+        terms.push(coefficient === 1 ? rests[key] :
+            product([constant(coefficient), rests[key]]));
+      }
+      if (Math.abs(total) >= ZERO_TOLERANCE) {
+        terms.push(constant(total));
+      }
+      if (terms.length === 0) {
+        return constant(0);
+      }
+      return terms.length === 1 ? terms[0] : sum(terms);
+    }
+  }
+}
+
+/** Format a constant with the given number of significant digits. */
+function formatConstant(value: number, digits: number): string {
+  return String(+value.toPrecision(digits));
+}
+
+/** Whether the expression is a negative constant or starts with one. */
+function isNegative(expr: Expr): boolean {
+  if (expr.type === "const") {
+    return expr.value < 0;
+  }
+  return expr.type === "product" && isNegative(expr.factors[0]);
+}
+
+/** The expression with its leading constant negated. */
+function negate(expr: Expr): Expr {
+  if (expr.type === "const") {
+    return constant(-expr.value);
+  } else if (expr.type === "product" && expr.factors[0].type === "const") {
+    const c = (expr.factors[0] as {type: "const", value: number}).value;
+    return -c === 1 && expr.factors.length === 2 ? expr.factors[1] :
+        product([constant(-c) as Expr].concat(expr.factors.slice(1)));
+  }
+  return product([constant(-1), expr]);
+}
+
+/** Plain-text form of an expression, e.g. "0.5*sin(2*x1) + 1.2". */
+export function toText(expr: Expr, digits: number = 3,
+    names: {[name: string]: VariableName} = {}): string {
+  const recurse = (e: Expr): string => toText(e, digits, names);
+  const wrap = (e: Expr): string =>
+      (e.type === "sum" || e.type === "product" || isNegative(e)) ?
+      `(${recurse(e)})` : recurse(e);
+  switch (expr.type) {
+    case "const":
+      return formatConstant(expr.value, digits);
+    case "var":
+      return names[expr.name] ? names[expr.name].text : expr.name;
+    case "sum":
+      return expr.terms.map((term, i) => {
+        if (i === 0) {
+          return recurse(term);
+        }
+        return isNegative(term) ? ` - ${recurse(negate(term))}` :
+            ` + ${recurse(term)}`;
+      }).join("");
+    case "product": {
+      const factors = expr.factors.map(factor =>
+          factor.type === "sum" ? `(${recurse(factor)})` : recurse(factor));
+      if (factors[0] === "-1" && factors.length > 1) {
+        return "-" + factors.slice(1).join("*");
+      }
+      return factors.join("*");
+    }
+    case "pow":
+      return `${wrap(expr.base)}^${expr.exponent}`;
+    case "call":
+      return `${expr.fn}(${recurse(expr.arg)})`;
+  }
+}
+
+/** LaTeX form of an expression, e.g. "0.5 \sin\left(2 x_1\right) + 1.2". */
+export function toLatex(expr: Expr, digits: number = 3,
+    names: {[name: string]: VariableName} = {}): string {
+  const recurse = (e: Expr): string => toLatex(e, digits, names);
+  switch (expr.type) {
+    case "const":
+      return formatConstant(expr.value, digits);
+    case "var":
+      return names[expr.name] ? names[expr.name].latex : expr.name;
+    case "sum":
+      return expr.terms.map((term, i) => {
+        if (i === 0) {
+          return recurse(term);
+        }
+        return isNegative(term) ? ` - ${recurse(negate(term))}` :
+            ` + ${recurse(term)}`;
+      }).join("");
+    case "product": {
+      const factors = expr.factors.map(factor => factor.type === "sum" ?
+          `\\left(${recurse(factor)}\\right)` : recurse(factor));
+      if (factors[0] === "-1" && factors.length > 1) {
+        return "-" + factors.slice(1).join(" ");
+      }
+      return factors.join(" ");
+    }
+    case "pow": {
+      const base = expr.base.type === "var" ? recurse(expr.base) :
+          `\\left(${recurse(expr.base)}\\right)`;
+      return `${base}^{${expr.exponent}}`;
+    }
+    case "call": {
+      const arg = recurse(expr.arg);
+      switch (expr.fn) {
+        case "abs":
+          return `\\left|${arg}\\right|`;
+        case "exp":
+          return `e^{${arg}}`;
+        default:
+          return `\\${expr.fn}\\left(${arg}\\right)`;
+      }
+    }
+  }
+}
+
+/**
+ * Extract a closed-form formula for the output of the network: walks the
+ * layers from the inputs to the output node with the given index, replaces
+ * every active edge by its formula (see edgeToExpr), sums them at the nodes,
+ * applies their normalization, scale and bias and simplifies. Inactive nodes
+ * and edges contribute nothing.
+ */
+export function extractFormula(network: KANNode[][],
+    names: {[name: string]: VariableName} = {},
+    outputIndex: number = 0): Formula {
+  const nodeExprs: {[id: string]: Expr} = {};
+  for (const node of network[0]) {
+    nodeExprs[node.id] = {type: "var", name: node.id};
+  }
+  for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
+    for (const node of network[layerIdx]) {
+      const terms: Expr[] = [];
+      if (node.isActive) {
+        for (const edge of node.inputEdges) {
+          if (edge.isActive && edge.sourceNode.isActive) {
+            terms.push(edgeToExpr(edge, nodeExprs[edge.sourceNode.id]));
+          }
+        }
+      }
+      let total = sum(terms);
+      if (node.isActive && (node.hasAffine || node.normalize)) {
+        const affine = node.getOutputAffine();
+        total = sum([product([constant(affine.scale), total]),
+            constant(affine.bias)]);
+      }
+      nodeExprs[node.id] = simplify(total);
+    }
+  }
+  const expr = nodeExprs[getKANOutputNodes(network)[outputIndex].id];
+  return {expr, text: toText(expr, 3, names), latex: toLatex(expr, 3, names)};
+}
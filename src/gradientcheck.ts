@@ -0,0 +1,93 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+/**
+ * Gradient check of the backpropagation (see kanGradientCheck) for every
+ * basis, extrapolation and kind of node: plain sums, affine nodes and
+ * normalized affine nodes. The inputs reach beyond the input range, so the
+ * extrapolations are checked too. Prints the maximum relative error of every
+ * network and fails if one exceeds MAX_RELATIVE_ERROR.
+ *
+ * Run with "npm run gradient-check".
+ */
+
+/// <reference path="seedrandom.d.ts" />
+
+// Installs Math.seedrandom, which the page loads as a script.
+import "seedrandom";
+import * as kan from "./kan";
+
+// Node's globals; only the d3 typings are installed.
+declare const process: {exitCode: number};
+
+/** Largest accepted relative error of a gradient */
+const MAX_RELATIVE_ERROR = 1e-3;
+const SHAPE = [2, 3, 3, 1];
+const GRID_SIZE = 5;
+const DEGREE = 3;
+const NUM_EXAMPLES = 20;
+/** Inputs are drawn from [-INPUT_SCALE, INPUT_SCALE] */
+const INPUT_SCALE = 8;
+const SEED = "gradient-check";
+
+/** Kinds of nodes, as [name, affine, normalize] */
+const NODE_KINDS: [string, boolean, boolean][] = [
+  ["sum", false, false],
+  ["affine", true, false],
+  ["normalized", true, true]
+];
+
+function run(): void {
+  Math.seedrandom(SEED);
+  const inputs: number[][] = [];
+  const targets: number[] = [];
+  for (let i = 0; i < NUM_EXAMPLES; i++) {
+    const x = INPUT_SCALE * (2 * Math.random() - 1);
+    const y = INPUT_SCALE * (2 * Math.random() - 1);
+    inputs.push([x, y]);
+    targets.push(Math.sin(x) * y / INPUT_SCALE);
+  }
+
+  console.log(`Gradient check of ${SHAPE.join("-")} networks, ` +
+      `grid size ${GRID_SIZE}, degree ${DEGREE}, ${NUM_EXAMPLES} examples`);
+  let maxRelativeError = 0;
+  for (const basisName in kan.Bases) {
+    for (const extrapolationName in kan.Extrapolations) {
+      for (const [nodeKind, affine, normalize] of NODE_KINDS) {
+        const network = kan.buildKANNetwork(SHAPE, ["x", "y"], GRID_SIZE,
+            DEGREE, 0.3, kan.BaseFunctions.SILU, kan.Bases[basisName],
+            kan.Extrapolations[extrapolationName], affine, normalize);
+        // Normalized nodes need running statistics; evaluation mode keeps
+        // them fixed during the check.
+        kan.updateKANStatistics(network, inputs);
+        const result = kan.kanGradientCheck(network, inputs, targets,
+            kan.Errors.SQUARE);
+        maxRelativeError = Math.max(maxRelativeError,
+            result.maxRelativeError);
+        const failed = result.maxRelativeError > MAX_RELATIVE_ERROR;
+        console.log(`  ${basisName}, ${extrapolationName}, ${nodeKind}: ` +
+            `max relative error ${result.maxRelativeError.toExponential(1)} ` +
+            `(${result.worstParameter}, ${result.numParameters} ` +
+            `parameters)${failed ? " FAILED" : ""}`);
+      }
+    }
+  }
+  console.log(`Max relative error ${maxRelativeError.toExponential(1)}`);
+  if (maxRelativeError > MAX_RELATIVE_ERROR) {
+    process.exitCode = 1;
+  }
+}
+
+run();
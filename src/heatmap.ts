@@ -25,6 +25,13 @@ export interface HeatMapSettings {
 /** Number of different shades (colors) when drawing a gradient heatmap */
 const NUM_SHADES = 30;
 
+/** Background color of a region where no class is favored */
+const NEUTRAL_COLOR = "#e8eaeb";
+
+/** Per-class colors of multi-class heatmaps, indexed by class */
+export const CLASS_COLORS =
+    ["#0877bd", "#f59322", "#2ca02c", "#9467bd", "#d62728", "#8c564b"];
+
 /**
  * Draws a heatmap using canvas. Used for showing the learned decision
  * boundary of the classification algorithm. Can also draw data points
@@ -39,6 +46,7 @@ export class HeatMap {
   private yScale;
   private numSamples: number;
   private color;
+  private classColors: string[] = null;
   private canvas;
   private svg;
 
@@ -149,6 +157,64 @@ export class HeatMap {
     this.updateCircles(this.svg.select("g.train"), points);
   }
 
+  /**
+   * Color data points by class (their label is the class index) with the
+   * given palette instead of the diverging [-1, 1] scale. Pass null to go
+   * back to the diverging scale.
+   */
+  setClassColors(colors: string[]): void {
+    this.classColors = colors;
+  }
+
+  /**
+   * Color every cell by the class with the highest probability. The shade
+   * goes from neutral (all classes equally likely) to the full class color
+   * (certain), or is always the full color if discretize is set.
+   *
+   * @param data The class probabilities of every cell, data[x][y][class].
+   */
+  updateClassBackground(data: number[][][], discretize: boolean): void {
+    let dx = data[0].length;
+    let dy = data.length;
+
+    if (dx !== this.numSamples || dy !== this.numSamples) {
+      throw new Error(
+          "The provided data matrix must be of size " +
+          "numSamples X numSamples");
+    }
+
+    let context = (this.canvas.node() as HTMLCanvasElement).getContext("2d");
+    let image = context.createImageData(dx, dy);
+    let colors = this.classColors || CLASS_COLORS;
+
+    for (let y = 0, p = -1; y < dy; ++y) {
+      for (let x = 0; x < dx; ++x) {
+        let probabilities = data[x][y];
+        let numClasses = probabilities.length;
+        let best = 0;
+        for (let k = 1; k < numClasses; k++) {
+          if (probabilities[k] > probabilities[best]) {
+            best = k;
+          }
+        }
+        let confidence = 1;
+        if (!discretize && numClasses > 1) {
+          confidence = (probabilities[best] - 1 / numClasses) /
+              (1 - 1 / numClasses);
+          // Quantize like the diverging scale.
+          confidence = Math.round(confidence * NUM_SHADES) / NUM_SHADES;
+        }
+        let c = d3.rgb(d3.interpolateRgb(NEUTRAL_COLOR,
+            colors[best % colors.length])(confidence));
+        image.data[++p] = c.r;
+        image.data[++p] = c.g;
+        image.data[++p] = c.b;
+        image.data[++p] = 160;
+      }
+    }
+    context.putImageData(image, 0, 0);
+  }
+
   updateBackground(data: number[][], discretize: boolean): void {
     let dx = data[0].length;
     let dy = data.length;
@@ -200,7 +266,9 @@ export class HeatMap {
         cx: (d: Example2D) => this.xScale(d.x),
         cy: (d: Example2D) => this.yScale(d.y),
       })
-      .style("fill", d => this.color(d.label));
+      .style("fill", (d: Example2D) => this.classColors != null ?
+          this.classColors[d.label % this.classColors.length] :
+          this.color(d.label));
 
     // Remove points if the length has gone down.
     selection.exit().remove();
@@ -28,10 +28,543 @@ export class Errors {
                0.5 * Math.pow(output - target, 2),
     der: (output: number, target: number) => output - target
   };
+  /**
+   * Log-loss of sigmoid(output) against the ±1 label mapped to [0, 1], i.e.
+   * log(1 + exp(-target * output)) for labels of exactly ±1.
+   */
+  public static LOG: ErrorFunction = {
+    error: (output: number, target: number) => {
+      const y = (target + 1) / 2;
+      // Numerically stable softplus(output) - y * output
+      return Math.max(output, 0) + Math.log(1 + Math.exp(-Math.abs(output))) -
+          y * output;
+    },
+    der: (output: number, target: number) =>
+        1 / (1 + Math.exp(-output)) - (target + 1) / 2
+  };
+  /** Hinge loss max(0, 1 - target * output) for ±1 labels */
+  public static HINGE: ErrorFunction = {
+    error: (output: number, target: number) =>
+               Math.max(0, 1 - target * output),
+    der: (output: number, target: number) =>
+             target * output < 1 ? -target : 0
+  };
+  /** Huber loss: squared error within 1 of the target, absolute beyond */
+  public static HUBER: ErrorFunction = {
+    error: (output: number, target: number) => {
+      const r = Math.abs(output - target);
+      return r <= 1 ? 0.5 * r * r : r - 0.5;
+    },
+    der: (output: number, target: number) =>
+             Math.max(-1, Math.min(1, output - target))
+  };
+  /** Absolute (L1) error */
+  public static ABS: ErrorFunction = {
+    error: (output: number, target: number) => Math.abs(output - target),
+    der: (output: number, target: number) =>
+             output > target ? 1 : (output < target ? -1 : 0)
+  };
+}
+
+/**
+ * An error function of the whole output vector and its gradient with
+ * respect to every output, for losses that couple the outputs.
+ */
+export interface VectorErrorFunction {
+  isVector: true;
+  error: (outputs: number[], targets: number[]) => number;
+  der: (outputs: number[], targets: number[]) => number[];
+}
+
+/** Error function of a single output or of the whole output vector */
+export type KANErrorFunction = ErrorFunction | VectorErrorFunction;
+
+/** Softmax of the outputs, shifted by their max for numerical stability */
+export function softmax(outputs: number[]): number[] {
+  const max = Math.max(...outputs);
+  const exps = outputs.map(o => Math.exp(o - max));
+  let sum = 0;
+  for (const e of exps) {
+    sum += e;
+  }
+  return exps.map(e => e / sum);
+}
+
+/** Built-in vector error functions */
+export class VectorErrors {
+  /**
+   * Cross-entropy of the softmax of the outputs (the logits) against a
+   * one-hot or probability target vector. The gradient is softmax - target.
+   */
+  public static SOFTMAX_CROSS_ENTROPY: VectorErrorFunction = {
+    isVector: true,
+    error: (outputs: number[], targets: number[]) => {
+      const max = Math.max(...outputs);
+      let sum = 0;
+      for (const o of outputs) {
+        sum += Math.exp(o - max);
+      }
+      const logSum = max + Math.log(sum);
+      let error = 0;
+      for (let i = 0; i < outputs.length; i++) {
+        if (targets[i] !== 0) {
+          error -= targets[i] * (outputs[i] - logSum);
+        }
+      }
+      return error;
+    },
+    der: (outputs: number[], targets: number[]) =>
+        softmax(outputs).map((p, i) => p - targets[i])
+  };
+}
+
+export function isVectorErrorFunction(
+  errorFunc: KANErrorFunction
+): errorFunc is VectorErrorFunction {
+  return (errorFunc as VectorErrorFunction).isVector === true;
+}
+
+/** A scalar target is the target of a single-output network. */
+function toTargetVector(target: number | number[]): number[] {
+  return typeof target === "number" ? [target] : target;
+}
+
+/**
+ * Error of one example. A scalar error function is summed over the outputs.
+ */
+export function computeKANError(
+  outputs: number[],
+  target: number | number[],
+  errorFunc: KANErrorFunction
+): number {
+  const targets = toTargetVector(target);
+  if (isVectorErrorFunction(errorFunc)) {
+    return errorFunc.error(outputs, targets);
+  }
+  let error = 0;
+  for (let i = 0; i < outputs.length; i++) {
+    error += errorFunc.error(outputs[i], targets[i]);
+  }
+  return error;
+}
+
+/**
+ * Per-parameter state of an optimizer: step count, first moment / velocity
+ * and second moment buffers. Buffers are (re)sized on the first update.
+ */
+export interface OptimizerState {
+  step: number;
+  m: number[];
+  v: number[];
+}
+
+/**
+ * An optimizer that updates parameters in place from their (averaged)
+ * gradients, keeping its per-parameter buffers in the given state.
+ */
+export interface Optimizer {
+  update: (params: number[], gradients: number[], state: OptimizerState,
+      learningRate: number) => void;
+}
+
+/** Creates an empty optimizer state */
+export function createOptimizerState(): OptimizerState {
+  return {step: 0, m: [], v: []};
+}
+
+/** Makes sure the state buffers match the number of parameters */
+function ensureOptimizerState(state: OptimizerState, size: number): void {
+  if (state.m.length !== size || state.v.length !== size) {
+    state.step = 0;
+    state.m = [];
+    state.v = [];
+    for (let i = 0; i < size; i++) {
+      state.m.push(0);
+      state.v.push(0);
+    }
+  }
+}
+
+/** Built-in optimizers */
+export class Optimizers {
+  /** Plain stochastic gradient descent */
+  public static SGD: Optimizer = {
+    update: (params, gradients, state, learningRate) => {
+      for (let i = 0; i < params.length; i++) {
+        params[i] -= learningRate * gradients[i];
+      }
+    }
+  };
+  /** SGD with (heavy ball) momentum 0.9 */
+  public static MOMENTUM: Optimizer = {
+    update: (params, gradients, state, learningRate) => {
+      const momentum = 0.9;
+      ensureOptimizerState(state, params.length);
+      for (let i = 0; i < params.length; i++) {
+        state.m[i] = momentum * state.m[i] + gradients[i];
+        params[i] -= learningRate * state.m[i];
+      }
+      state.step++;
+    }
+  };
+  /** Adam with bias-corrected moments (beta1 = 0.9, beta2 = 0.999) */
+  public static ADAM: Optimizer = {
+    update: (params, gradients, state, learningRate) => {
+      const beta1 = 0.9;
+      const beta2 = 0.999;
+      const epsilon = 1e-8;
+      ensureOptimizerState(state, params.length);
+      state.step++;
+      const correction1 = 1 - Math.pow(beta1, state.step);
+      const correction2 = 1 - Math.pow(beta2, state.step);
+      for (let i = 0; i < params.length; i++) {
+        const g = gradients[i];
+        state.m[i] = beta1 * state.m[i] + (1 - beta1) * g;
+        state.v[i] = beta2 * state.v[i] + (1 - beta2) * g * g;
+        const mHat = state.m[i] / correction1;
+        const vHat = state.v[i] / correction2;
+        params[i] -= learningRate * mHat / (Math.sqrt(vHat) + epsilon);
+      }
+    }
+  };
+  /** RMSProp with decay 0.9 */
+  public static RMSPROP: Optimizer = {
+    update: (params, gradients, state, learningRate) => {
+      const decay = 0.9;
+      const epsilon = 1e-8;
+      ensureOptimizerState(state, params.length);
+      for (let i = 0; i < params.length; i++) {
+        const g = gradients[i];
+        state.v[i] = decay * state.v[i] + (1 - decay) * g * g;
+        params[i] -= learningRate * g / (Math.sqrt(state.v[i]) + epsilon);
+      }
+      state.step++;
+    }
+  };
+}
+
+/** A base function and its derivative, used for the residual term of an edge. */
+export interface BaseFunction {
+  output: (input: number) => number;
+  der: (input: number) => number;
+}
+
+/**
+ * Built-in base functions for the residual term
+ * phi(x) = w_b * b(x) + w_s * spline(x) of a KAN edge.
+ */
+export class BaseFunctions {
+  public static SILU: BaseFunction = {
+    output: x => x / (1 + Math.exp(-x)),
+    der: x => {
+      const sigmoid = 1 / (1 + Math.exp(-x));
+      return sigmoid * (1 + x * (1 - sigmoid));
+    }
+  };
+  public static IDENTITY: BaseFunction = {
+    output: x => x,
+    der: x => 1
+  };
+  public static TANH: BaseFunction = {
+    output: x => {
+      if (x === Infinity) {
+        return 1;
+      } else if (x === -Infinity) {
+        return -1;
+      } else {
+        const e2x = Math.exp(2 * x);
+        return (e2x - 1) / (e2x + 1);
+      }
+    },
+    der: x => {
+      const output = BaseFunctions.TANH.output(x);
+      return 1 - output * output;
+    }
+  };
+  /** No residual term: the edge is the bare spline. */
+  public static ZERO: BaseFunction = {
+    output: x => 0,
+    der: x => 0
+  };
+}
+
+/** A function of the symbolic library (see symbolic.ts) */
+export interface SymbolicFunction {
+  name: string;
+  output: (input: number) => number;
+  der: (input: number) => number;
+  /** Rough complexity, used to prefer simple formulas over equally good ones */
+  complexity: number;
+}
+
+/** A symbolic edge function c * f(a * x + b) + d */
+export interface SymbolicFit {
+  fn: SymbolicFunction;
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  /** Coefficient of determination of the fit to the edge function */
+  r2: number;
+}
+
+/**
+ * A family of basis functions B_0 ... B_{n-1} on an input range. A learnable
+ * function is the weighted sum of its basis functions, and the weights are
+ * its control points. The B-spline basis lives on the function's knot
+ * vector and is evaluated by LearnableFunction itself, so it leaves the
+ * functions below undefined.
+ */
+export interface Basis {
+  name: string;
+  /** Values of all n basis functions at x, with x inside the range */
+  values?: (x: number, n: number, range: [number, number]) => number[];
+  /** Derivatives with respect to x of all n basis functions at x */
+  derivatives?: (x: number, n: number, range: [number, number]) => number[];
+  /** The x each control point is associated with, for drawing */
+  positions?: (n: number, range: [number, number]) => number[];
+  /**
+   * Whether each basis function is concentrated around its position, so a
+   * control point roughly sets the function value there. Coefficients of
+   * global bases (polynomials, sines) are drawn as stems instead.
+   */
+  local: boolean;
+}
+
+/** Map x from the range onto [-1, 1] */
+function toUnitInterval(x: number, range: [number, number]): number {
+  return 2 * (x - range[0]) / (range[1] - range[0]) - 1;
+}
+
+/** n evenly spaced centers spanning the range */
+function getCenters(n: number, range: [number, number]): number[] {
+  const [min, max] = range;
+  const centers: number[] = [];
+  for (let i = 0; i < n; i++) {
+    centers.push(n === 1 ? (min + max) / 2 : min + (max - min) * i / (n - 1));
+  }
+  return centers;
+}
+
+/** Width of the radial basis functions: the spacing of their centers */
+function getCenterSpacing(n: number, range: [number, number]): number {
+  return (range[1] - range[0]) / Math.max(1, n - 1);
+}
+
+/** Frequency of the i-th Fourier basis function (see Bases.FOURIER) */
+function getFourierFrequency(i: number): number {
+  return Math.floor((i + 1) / 2);
+}
+
+/** Built-in basis families */
+export class Bases {
+  /** Clamped B-splines on the (adaptable) knot grid, as in pykan */
+  public static BSPLINE: Basis = {
+    name: "bspline",
+    local: true
+  };
+  /**
+   * Chebyshev polynomials T_0 ... T_{n-1} of x mapped onto [-1, 1], as in
+   * ChebyKAN
+   */
+  public static CHEBYSHEV: Basis = {
+    name: "chebyshev",
+    values: (x, n, range) => {
+      const t = toUnitInterval(x, range);
+      const values: number[] = [];
+      for (let k = 0; k < n; k++) {
+        values.push(k === 0 ? 1 : k === 1 ? t :
+            2 * t * values[k - 1] - values[k - 2]);
+      }
+      return values;
+    },
+    derivatives: (x, n, range) => {
+      // T_k' = k U_{k-1}, with the Chebyshev polynomials U of the 2nd kind
+      const t = toUnitInterval(x, range);
+      const scale = 2 / (range[1] - range[0]);
+      const derivatives: number[] = [];
+      let uPrev = 0;
+      let u = 1;
+      for (let k = 0; k < n; k++) {
+        derivatives.push(k * (k === 0 ? 0 : uPrev) * scale);
+        // Advance so that uPrev = U_k for the next k
+        const next = k === 0 ? 2 * t : 2 * t * u - uPrev;
+        uPrev = u;
+        u = next;
+      }
+      return derivatives;
+    },
+    positions: getCenters,
+    local: false
+  };
+  /**
+   * Gaussian radial basis functions exp(-((x - c_i) / h)^2) on evenly
+   * spaced centers c_i with spacing h, as in FastKAN
+   */
+  public static GAUSSIAN_RBF: Basis = {
+    name: "rbf",
+    values: (x, n, range) => {
+      const h = getCenterSpacing(n, range);
+      return getCenters(n, range).map(c => {
+        const u = (x - c) / h;
+        return Math.exp(-u * u);
+      });
+    },
+    derivatives: (x, n, range) => {
+      const h = getCenterSpacing(n, range);
+      return getCenters(n, range).map(c => {
+        const u = (x - c) / h;
+        return -2 * u / h * Math.exp(-u * u);
+      });
+    },
+    positions: getCenters,
+    local: true
+  };
+  /**
+   * Fourier series 1, cos(t), sin(t), cos(2t), sin(2t), ... with x mapped
+   * onto t in [0, pi], so the function need not be periodic on the range
+   */
+  public static FOURIER: Basis = {
+    name: "fourier",
+    values: (x, n, range) => {
+      const t = Math.PI * (x - range[0]) / (range[1] - range[0]);
+      const values: number[] = [];
+      for (let i = 0; i < n; i++) {
+        const k = getFourierFrequency(i);
+        values.push(i === 0 ? 1 : i % 2 === 1 ? Math.cos(k * t) :
+            Math.sin(k * t));
+      }
+      return values;
+    },
+    derivatives: (x, n, range) => {
+      const scale = Math.PI / (range[1] - range[0]);
+      const t = scale * (x - range[0]);
+      const derivatives: number[] = [];
+      for (let i = 0; i < n; i++) {
+        const k = getFourierFrequency(i);
+        derivatives.push(i === 0 ? 0 : i % 2 === 1 ?
+            -k * scale * Math.sin(k * t) : k * scale * Math.cos(k * t));
+      }
+      return derivatives;
+    },
+    positions: getCenters,
+    local: false
+  };
+  /**
+   * Mexican-hat (Ricker) wavelets (1 - u^2) exp(-u^2 / 2), u = (x - c_i) / h,
+   * on evenly spaced centers c_i with spacing h, as in Wav-KAN
+   */
+  public static MEXICAN_HAT: Basis = {
+    name: "mexican-hat",
+    values: (x, n, range) => {
+      const h = getCenterSpacing(n, range);
+      return getCenters(n, range).map(c => {
+        const u = (x - c) / h;
+        return (1 - u * u) * Math.exp(-u * u / 2);
+      });
+    },
+    derivatives: (x, n, range) => {
+      const h = getCenterSpacing(n, range);
+      return getCenters(n, range).map(c => {
+        const u = (x - c) / h;
+        return (u * u * u - 3 * u) * Math.exp(-u * u / 2) / h;
+      });
+    },
+    positions: getCenters,
+    local: true
+  };
+}
+
+/** Ids of the grids seen so far, keyed by a description of the grid */
+let gridIds: {[key: string]: number} = {};
+let numGridKeys = 0;
+let nextGridId = 0;
+/** Number of grids remembered before the ids are forgotten */
+const MAX_GRID_KEYS = 10000;
+
+/**
+ * Id of the grid with the given description. Ids are never reused, so equal
+ * ids always mean equal grids; forgetting old ids only stops functions
+ * from sharing until their grids change again.
+ */
+function getGridId(key: string): number {
+  if (!gridIds.hasOwnProperty(key)) {
+    if (numGridKeys >= MAX_GRID_KEYS) {
+      gridIds = {};
+      numGridKeys = 0;
+    }
+    gridIds[key] = nextGridId++;
+    numGridKeys++;
+  }
+  return gridIds[key];
+}
+
+/**
+ * Where a function is evaluated for an input x outside its range: its value
+ * there is scale * (f(t) + offset * f'(t)) and its derivative
+ * scale * slope * f'(t), for a point t inside the range.
+ */
+export interface ExtrapolationPoint {
+  t: number;
+  /** Distance over which the slope at t is continued (0 for none) */
+  offset: number;
+  /** 0 where the function vanishes, 1 otherwise */
+  scale: number;
+  /** How the slope at t carries over to x: 0 if f is constant there */
+  slope: number;
+}
+
+/** How a learnable function continues outside its input range */
+export interface Extrapolation {
+  name: string;
+  /** The point an input outside the range is evaluated at */
+  extend: (x: number, range: [number, number]) => ExtrapolationPoint;
+}
+
+function clampToRange(x: number, range: [number, number]): number {
+  return Math.max(range[0], Math.min(range[1], x));
+}
+
+/** Built-in extrapolation policies */
+export class Extrapolations {
+  /** Keeps the boundary value, so the gradients vanish outside the range */
+  public static CLAMP: Extrapolation = {
+    name: "clamp",
+    extend: (x, range) =>
+        ({t: clampToRange(x, range), offset: 0, scale: 1, slope: 0})
+  };
+  /** Continues along the tangent at the boundary */
+  public static LINEAR: Extrapolation = {
+    name: "linear",
+    extend: (x, range) => {
+      const t = clampToRange(x, range);
+      return {t, offset: x - t, scale: 1, slope: 1};
+    }
+  };
+  /** Repeats the function with the range as its period */
+  public static PERIODIC: Extrapolation = {
+    name: "periodic",
+    extend: (x, range) => {
+      const [min, max] = range;
+      const period = max - min;
+      let u = (x - min) % period;
+      if (u < 0) {
+        u += period;
+      }
+      return {t: min + u, offset: 0, scale: 1, slope: 1};
+    }
+  };
+  /** Zero outside the range */
+  public static ZERO: Extrapolation = {
+    name: "zero",
+    extend: (x, range) =>
+        ({t: clampToRange(x, range), offset: 0, scale: 0, slope: 0})
+  };
 }
 
 /**
- * A learnable univariate function represented as a B-spline.
+ * A learnable univariate function represented as a B-spline, or as a
+ * weighted sum of another basis family (see Bases).
  * This is the core component of a KAN (Kolmogorov-Arnold Network).
  * 
  * Initialization:
@@ -46,12 +579,20 @@ export class Errors {
  */
 export class LearnableFunction {
   id: string;
-  controlPoints: number[] = [];
+  controlPoints: Float64Array = new Float64Array(0);
   knotVector: number[] = [];
+  /**
+   * Identifies the basis functions of this function (see getGridId): equal
+   * ids mean equal grids, so edges can share basis evaluations
+   */
+  gridId: number = -1;
   gridSize: number;
   degree: number;
   initNoise: number | "xavier" | "linear";
   inputRange: [number, number] = [-6, 6];
+  basis: Basis;
+  /** How the function continues outside the input range */
+  extrapolation: Extrapolation = Extrapolations.CLAMP;
   private fanIn: number;
   private fanOut: number;
   
@@ -62,7 +603,8 @@ export class LearnableFunction {
     degree: number = 3,
     initNoise: number | "xavier" | "linear" = 0.3,
     fanIn: number = 1,
-    fanOut: number = 1
+    fanOut: number = 1,
+    basis: Basis = Bases.BSPLINE
   ) {
     this.id = id;
     this.gridSize = gridSize;
@@ -71,14 +613,59 @@ export class LearnableFunction {
     this.inputRange = range;
     this.fanIn = Math.max(1, fanIn | 0);
     this.fanOut = Math.max(1, fanOut | 0);
+    this.basis = basis;
     this.initializeKnotVector();
     this.initializeControlPoints();
   }
 
+  /** Whether this function is a B-spline with a knot vector */
+  isSpline(): boolean {
+    return this.basis === Bases.BSPLINE;
+  }
+
   private initializeKnotVector(): void {
-    const [min, max] = this.inputRange;
+    if (!this.isSpline()) {
+      // Other bases have no knots; their grid is fixed by the range
+      this.knotVector = [];
+      this.updateGridId();
+      return;
+    }
+    this.setInternalKnots(this.getUniformInternalKnots());
+  }
+
+  /**
+   * Positions of the grid lines of the basis: the internal knots of a
+   * B-spline, the centers of a local basis, none for a global basis.
+   */
+  getGridLines(): number[] {
+    if (this.isSpline()) {
+      return this.knotVector.slice(this.degree + 1,
+          this.knotVector.length - this.degree - 1);
+    }
+    return this.basis.local ? this.getControlPointPositions() : [];
+  }
+
+  /** Number of knots strictly between the clamped boundary knots */
+  private getNumInternalKnots(): number {
     const numControlPoints = this.gridSize + 1;
     const numKnots = numControlPoints + this.degree + 1;
+    return numKnots - 2 * (this.degree + 1);
+  }
+
+  /** Internal knots uniformly distributed over the input range */
+  private getUniformInternalKnots(): number[] {
+    const [min, max] = this.inputRange;
+    const numInternalKnots = this.getNumInternalKnots();
+    const knots: number[] = [];
+    for (let i = 1; i <= numInternalKnots; i++) {
+      knots.push(min + (max - min) * i / (numInternalKnots + 1));
+    }
+    return knots;
+  }
+
+  /** Build the clamped knot vector around the given internal knots */
+  private setInternalKnots(internalKnots: number[]): void {
+    const [min, max] = this.inputRange;
     
     this.knotVector = [];
     
@@ -88,24 +675,274 @@ export class LearnableFunction {
       this.knotVector.push(min);
     }
     
-    // Internal knots are uniformly distributed
-    const numInternalKnots = numKnots - 2 * (this.degree + 1);
-    for (let i = 1; i <= numInternalKnots; i++) {
-      this.knotVector.push(min + (max - min) * i / (numInternalKnots + 1));
+    for (const knot of internalKnots) {
+      this.knotVector.push(knot);
     }
     
     // Last degree+1 knots are max
     for (let i = 0; i <= this.degree; i++) {
       this.knotVector.push(max);
     }
+    this.updateGridId();
+  }
+
+  /**
+   * Replace the input range and the knot vector (empty for bases without
+   * knots), e.g. to restore a saved function. The number of control points
+   * must not change.
+   */
+  setGrid(range: [number, number], knotVector: number[]): void {
+    this.inputRange = [range[0], range[1]];
+    this.knotVector = knotVector.slice();
+    this.updateGridId();
+  }
+
+  /**
+   * Move the grid onto a new input range and refit the control points to the
+   * current function, including its extrapolation outside the old range. The
+   * internal knots keep their relative positions, so an adapted grid stays
+   * adapted.
+   */
+  setInputRange(range: [number, number]): void {
+    const [oldMin, oldMax] = this.inputRange;
+    const [min, max] = range;
+    if (!(min < max)) {
+      throw new Error(`Invalid input range [${min}, ${max}]`);
+    }
+    const internalKnots = !this.isSpline() ? [] : this.getGridLines().map(
+        knot => min + (knot - oldMin) * (max - min) / (oldMax - oldMin));
+    const fitX = this.getFitPoints(internalKnots, [], [min, max]);
+    const fitY = fitX.map(x => this.evaluate(x));
+    this.inputRange = [min, max];
+    if (this.isSpline()) {
+      this.setInternalKnots(internalKnots);
+    } else {
+      this.updateGridId();
+    }
+    this.fitControlPoints(fitX, fitY);
+  }
+
+  /** Change how the function continues outside the input range */
+  setExtrapolation(extrapolation: Extrapolation): void {
+    this.extrapolation = extrapolation;
+    this.updateGridId();
+  }
+
+  /** Recompute gridId after the grid changed */
+  private updateGridId(): void {
+    // Shared basis evaluations include the extrapolation outside the range
+    this.gridId = getGridId([
+      this.basis.name, this.extrapolation.name, this.degree,
+      this.gridSize + 1, this.inputRange[0], this.inputRange[1]
+    ].concat(this.knotVector).join(","));
+  }
+
+  /** Whether x lies in the input range, where no extrapolation is needed */
+  private isInRange(x: number): boolean {
+    return x >= this.inputRange[0] && x <= this.inputRange[1];
+  }
+
+  /**
+   * Re-place the internal knots according to the distribution of the given
+   * input samples (pykan's update_grid) and refit the control points so that
+   * the represented function is preserved as closely as possible.
+   *
+   * The adaptive grid puts knots at the sample quantiles; gridEps blends it
+   * with the uniform grid (0 = fully adaptive, 1 = uniform) so that regions
+   * without data keep some resolution.
+   */
+  updateGridFromSamples(samples: number[], gridEps: number = 0.02): void {
+    const [min, max] = this.inputRange;
+    // Only B-splines have an adaptable grid
+    if (!this.isSpline() || samples.length === 0 || max <= min) {
+      return;
+    }
+    
+    const sorted = samples
+      .map(x => Math.max(min, Math.min(max, x)))
+      .sort((a, b) => a - b);
+    
+    const uniformKnots = this.getUniformInternalKnots();
+    const numInternalKnots = uniformKnots.length;
+    const minGap = (max - min) * 1e-6;
+    const internalKnots: number[] = [];
+    let prev = min;
+    for (let i = 1; i <= numInternalKnots; i++) {
+      // Linearly interpolated quantile of the samples
+      const pos = (sorted.length - 1) * i / (numInternalKnots + 1);
+      const lo = Math.floor(pos);
+      const hi = Math.min(sorted.length - 1, lo + 1);
+      const quantile = sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+      
+      let knot = gridEps * uniformKnots[i - 1] + (1 - gridEps) * quantile;
+      // Keep knots strictly increasing so no basis function degenerates
+      const remaining = numInternalKnots - i + 1;
+      knot = Math.max(prev + minGap, Math.min(max - remaining * minGap, knot));
+      internalKnots.push(knot);
+      prev = knot;
+    }
+    
+    // Sample the current function before the knots move
+    const fitX = this.getFitPoints(internalKnots, sorted);
+    const fitY = fitX.map(x => this.evaluate(x));
+    
+    this.setInternalKnots(internalKnots);
+    this.fitControlPoints(fitX, fitY);
+  }
+
+  /**
+   * Returns a copy of this function on a grid with gridSize + 1 control
+   * points, least-squares fit to this function (grid extension). The new
+   * knots follow the spacing of the current ones, so an adapted grid stays
+   * adapted and doubling the number of intervals nests the old knots, which
+   * makes the refinement exact.
+   */
+  refine(gridSize: number): LearnableFunction {
+    const refined = new LearnableFunction(
+      this.id, gridSize, this.inputRange, this.degree, 0, this.fanIn,
+      this.fanOut, this.basis
+    );
+    refined.initNoise = this.initNoise;
+    refined.setExtrapolation(this.extrapolation);
+    if (!this.isSpline()) {
+      const fitX = refined.getFitPoints([], []);
+      refined.fitControlPoints(fitX, fitX.map(x => this.evaluate(x)));
+      return refined;
+    }
+    
+    // Breakpoints of the current grid: range boundaries plus internal knots
+    const p = this.degree;
+    const breakpoints = this.knotVector.slice(p, this.knotVector.length - p);
+    const numIntervals = breakpoints.length - 1;
+    
+    // Map the new breakpoints piecewise linearly onto the current ones
+    const newNumInternalKnots = refined.getNumInternalKnots();
+    const newNumIntervals = newNumInternalKnots + 1;
+    const internalKnots: number[] = [];
+    for (let j = 1; j <= newNumInternalKnots; j++) {
+      const u = j * numIntervals / newNumIntervals;
+      const i = Math.min(numIntervals - 1, Math.floor(u));
+      internalKnots.push(
+        breakpoints[i] + (breakpoints[i + 1] - breakpoints[i]) * (u - i)
+      );
+    }
+    
+    const fitX = refined.getFitPoints(internalKnots, []);
+    const fitY = fitX.map(x => this.evaluate(x));
+    refined.setInternalKnots(internalKnots);
+    refined.fitControlPoints(fitX, fitY);
+    return refined;
+  }
+
+  /**
+   * Points at which a refit should match the old function: a uniform sweep of
+   * the input range and a few points in every interval of the new grid (so
+   * no basis function is left unconstrained) plus the observed samples (so
+   * the fit is most accurate where data lands).
+   */
+  private getFitPoints(internalKnots: number[], samples: number[],
+      range: [number, number] = this.inputRange): number[] {
+    const [min, max] = range;
+    const numUniform = 10 * (this.gridSize + 1);
+    const points: number[] = [];
+    for (let i = 0; i <= numUniform; i++) {
+      points.push(min + (max - min) * i / numUniform);
+    }
+    
+    const breakpoints = [min].concat(internalKnots, [max]);
+    const pointsPerInterval = 4;
+    for (let i = 0; i < breakpoints.length - 1; i++) {
+      const left = breakpoints[i];
+      const right = breakpoints[i + 1];
+      for (let j = 1; j <= pointsPerInterval; j++) {
+        points.push(left + (right - left) * j / (pointsPerInterval + 1));
+      }
+    }
+    return points.concat(samples);
+  }
+
+  /**
+   * Least-squares fit of the control points to the given (x, y) pairs
+   * using the current knot vector.
+   */
+  fitControlPoints(xs: number[], ys: number[], ridge: number = 1e-8): void {
+    const n = this.controlPoints.length;
+    const ata: number[][] = [];
+    const aty: number[] = [];
+    for (let i = 0; i < n; i++) {
+      const row: number[] = [];
+      for (let j = 0; j < n; j++) {
+        row.push(i === j ? ridge : 0);
+      }
+      ata.push(row);
+      aty.push(0);
+    }
+    
+    // Accumulate the normal equations; each basis row has at most degree+1
+    // non-zero entries
+    for (let k = 0; k < xs.length; k++) {
+      const basis = this.getControlPointGradients(xs[k]);
+      for (let i = 0; i < n; i++) {
+        if (basis[i] === 0) continue;
+        aty[i] += basis[i] * ys[k];
+        for (let j = 0; j < n; j++) {
+          ata[i][j] += basis[i] * basis[j];
+        }
+      }
+    }
+    
+    const solution = solveLinearSystem(ata, aty);
+    if (solution != null) {
+      this.controlPoints = new Float64Array(solution);
+    }
+  }
+
+  /**
+   * Greville abscissae: the x position each control point is associated
+   * with, i.e. the average of the degree knots following it.
+   */
+  getControlPointPositions(): number[] {
+    if (!this.isSpline()) {
+      return this.basis.positions(this.controlPoints.length, this.inputRange);
+    }
+    const p = this.degree;
+    const positions: number[] = [];
+    for (let i = 0; i < this.controlPoints.length; i++) {
+      if (p === 0) {
+        positions.push((this.knotVector[i] + this.knotVector[i + 1]) / 2);
+        continue;
+      }
+      let sum = 0;
+      for (let j = 1; j <= p; j++) {
+        sum += this.knotVector[i + j];
+      }
+      positions.push(sum / p);
+    }
+    return positions;
   }
 
   private initializeControlPoints(): void {
+    this.controlPoints = new Float64Array(this.getInitialControlPoints());
+  }
+
+  private getInitialControlPoints(): number[] {
     const numControlPoints = this.gridSize + 1;
-    this.controlPoints = [];
+    const controlPoints: number[] = [];
 
     const randUniform = (a: number, b: number) => a + (b - a) * Math.random();
 
+    if (this.initNoise === "linear" && !this.isSpline()) {
+      // Least-squares fit of the (negative) identity, scaled like below
+      this.controlPoints = new Float64Array(numControlPoints);
+      const limit = Math.sqrt(2 / Math.max(1, this.fanIn | 0));
+      const sign = Math.random() < 0.5 ? 1 : -1;
+      const [min, max] = this.inputRange;
+      const xs = this.getFitPoints([], []);
+      this.fitControlPoints(xs, xs.map(x =>
+          sign * limit * (2 * (x - min) / (max - min) - 1)));
+      return Array.prototype.slice.call(this.controlPoints);
+    }
+
     if (this.initNoise === "linear") {
       // Linear initialization: creates identity function or negative identity function
       // Uses He-style scaling to determine the scale
@@ -118,12 +955,12 @@ export class LearnableFunction {
       for (let i = 0; i < numControlPoints; i++) {
         const t = i / (numControlPoints - 1); // 0 to 1
         if (isPositive) {
-          this.controlPoints.push(-limit + 2 * limit * t); // -limit to +limit (identity)
+          controlPoints.push(-limit + 2 * limit * t); // -limit to +limit (identity)
         } else {
-          this.controlPoints.push(limit - 2 * limit * t); // +limit to -limit (negative identity)
+          controlPoints.push(limit - 2 * limit * t); // +limit to -limit (negative identity)
         }
       }
-      return;
+      return controlPoints;
     }
 
     if (this.initNoise === "xavier") {
@@ -137,161 +974,198 @@ export class LearnableFunction {
       // Xavier/Glorot uses gain = 1.0
       const gain = 1.0;
       
-      // Compute μ_m^(0) and μ_m^(1) for each basis function
-      const mu0 = this.computeBasisFunctionExpectations();
-      const mu1 = this.computeBasisDerivativeExpectations();
+      // μ_m^(0) and μ_m^(1) for each basis function (cached per grid)
+      const stats = getBasisStatistics(this.gridSize, this.degree,
+          this.inputRange, "normal", this.basis);
+      const mu0 = stats.mu0;
+      const mu1 = stats.mu1;
       
       // Number of basis functions (D in the paper)
       const D = numControlPoints;
       
+      // Basis functions that the inputs hardly ever reach (at the ends of the
+      // range) have vanishing moments, which would blow σ_m up: σ_m is capped
+      // at a multiple of the plain Glorot scale
+      const maxSigma = XAVIER_MAX_SIGMA_RATIO *
+          gain * Math.sqrt(2.0 / (safeFanIn + safeFanOut));
+      
       // Initialize each control point with basis-specific variance
       for (let m = 0; m < numControlPoints; m++) {
         // Formula from the paper: σ_m = gain * sqrt(1/D * 2/(d_I * μ_m^(0) + d_O * μ_m^(1)))
         const denominator = safeFanIn * mu0[m] + safeFanOut * mu1[m];
-        const sigma_m = denominator > 0 ? 
-          gain * Math.sqrt((1.0 / D) * (2.0 / denominator)) : 
-          gain * Math.sqrt(2.0 / (safeFanIn + safeFanOut)); // Fallback to standard Glorot
+        const sigma_m = denominator > 0 ?
+          Math.min(maxSigma,
+              gain * Math.sqrt((1.0 / D) * (2.0 / denominator))) :
+          maxSigma;
         
         // Sample from N(0, σ_m^2) using Box-Muller transform
         const u1 = Math.random();
         const u2 = Math.random();
         const z = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
-        this.controlPoints.push(z * sigma_m);
+        controlPoints.push(z * sigma_m);
       }
-      return;
+      return controlPoints;
     }
 
     // Default: small symmetric noise around 0.
     const noise = typeof this.initNoise === "number" ? this.initNoise : 0.3;
     for (let i = 0; i < numControlPoints; i++) {
-      this.controlPoints.push((Math.random() - 0.5) * noise);
+      controlPoints.push((Math.random() - 0.5) * noise);
     }
+    return controlPoints;
   }
 
   /**
-   * Compute E[B_m(x)^2] for each basis function m
-   * Assumes input x ~ N(0, 1) as per the paper's assumptions
+   * Evaluate the function at input x: de Boor's algorithm for a B-spline,
+   * the weighted sum of the basis functions otherwise. Outside the input
+   * range the extrapolation policy applies.
    */
-  private computeBasisFunctionExpectations(): number[] {
-    const numControlPoints = this.gridSize + 1;
-    const expectations: number[] = [];
+  evaluate(x: number): number {
+    if (this.isInRange(x)) {
+      return this.evaluateInside(x);
+    }
+    const point = this.extrapolation.extend(x, this.inputRange);
+    if (point.scale === 0) {
+      return 0;
+    }
+    let value = this.evaluateInside(point.t);
+    if (point.offset !== 0) {
+      value += point.offset * this.derivativeInside(point.t);
+    }
+    return point.scale * value;
+  }
+
+  /** Value of the function at an input inside the range */
+  private evaluateInside(x: number): number {
+    if (!this.isSpline()) {
+      return this.weightedSum(
+          this.basis.values(x, this.controlPoints.length, this.inputRange));
+    }
     
-    // Monte Carlo estimation: sample from N(0, 1)
-    const numSamples = 10000;
-    const samples: number[] = [];
+    // Find the knot span
+    const span = this.findKnotSpan(x);
     
-    // Generate samples from N(0, 1) using Box-Muller transform
-    for (let i = 0; i < numSamples; i++) {
-      const u1 = Math.random();
-      const u2 = Math.random();
-      const z = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
-      // Clamp to input range to avoid out-of-bounds issues
-      samples.push(Math.max(this.inputRange[0], Math.min(this.inputRange[1], z)));
+    // Evaluate using de Boor's algorithm
+    return this.deBoor(span, x);
+  }
+
+  /** Sum of the control points weighted by the given basis values */
+  private weightedSum(basisValues: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < this.controlPoints.length; i++) {
+      sum += this.controlPoints[i] * basisValues[i];
+    }
+    return sum;
+  }
+
+  /**
+   * Evaluate the basis functions of this grid at input x into evaluation;
+   * the derivatives are computed on demand (see evaluateBasisDerivatives).
+   * Outside the range the values follow the extrapolation policy, so they
+   * are also the gradients of the function value there.
+   */
+  evaluateBasis(x: number, evaluation: BasisEvaluation): void {
+    evaluation.gridId = this.gridId;
+    evaluation.input = x;
+    evaluation.hasDerivatives = false;
+    const point = this.isInRange(x) ? null :
+        this.extrapolation.extend(x, this.inputRange);
+    if (point != null) {
+      x = point.t;
     }
+    evaluation.point = x;
+    evaluation.slope = point != null ? point.scale * point.slope : 1;
+    const values = evaluation.values;
     
-    // For each basis function (control point)
-    for (let m = 0; m < numControlPoints; m++) {
-      let sum = 0;
-      for (const x of samples) {
-        const span = this.findKnotSpan(x);
-        const basisValues = this.computeBasisFunctions(span, x);
-        const p = this.degree;
-        
-        // Find which basis function corresponds to control point m
-        let basisValue = 0;
-        for (let j = 0; j <= p; j++) {
-          const controlPointIndex = span - p + j;
-          if (controlPointIndex === m) {
-            basisValue = basisValues[j];
-            break;
-          }
-        }
-        
-        sum += basisValue * basisValue;
+    if (!this.isSpline()) {
+      const n = this.controlPoints.length;
+      const basisValues = this.basis.values(x, n, this.inputRange);
+      for (let i = 0; i < n; i++) {
+        values[i] = basisValues[i];
+      }
+      evaluation.start = 0;
+      evaluation.count = n;
+    } else {
+      const span = this.findKnotSpan(x);
+      evaluation.start = span - this.degree;
+      evaluation.count = this.degree + 1;
+      this.fillBasisFunctions(span, x, this.degree, values);
+    }
+    if (point == null) {
+      return;
+    }
+    if (point.offset !== 0) {
+      // Continue every basis function along its slope at the boundary
+      const derivatives = this.getEvaluationDerivatives(evaluation, x);
+      for (let i = 0; i < evaluation.count; i++) {
+        values[i] += point.offset * derivatives[i];
+      }
+    }
+    if (point.scale !== 1) {
+      for (let i = 0; i < evaluation.count; i++) {
+        values[i] *= point.scale;
       }
-      expectations.push(sum / numSamples);
     }
-    
-    return expectations;
   }
 
   /**
-   * Compute E[B'_m(x)^2] for each basis function derivative
-   * Assumes input x ~ N(0, 1) as per the paper's assumptions
+   * Add the derivatives of the basis functions at its input to an
+   * evaluation of this grid, following the extrapolation like derivative()
    */
-  private computeBasisDerivativeExpectations(): number[] {
-    const numControlPoints = this.gridSize + 1;
-    const expectations: number[] = [];
-    
-    // Monte Carlo estimation: sample from N(0, 1)
-    const numSamples = 10000;
-    const samples: number[] = [];
-    
-    // Generate samples from N(0, 1) using Box-Muller transform
-    for (let i = 0; i < numSamples; i++) {
-      const u1 = Math.random();
-      const u2 = Math.random();
-      const z = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
-      // Clamp to input range to avoid out-of-bounds issues
-      samples.push(Math.max(this.inputRange[0], Math.min(this.inputRange[1], z)));
+  evaluateBasisDerivatives(evaluation: BasisEvaluation): void {
+    if (evaluation.hasDerivatives) {
+      return;
     }
-    
-    // For each basis function (control point)
-    for (let m = 0; m < numControlPoints; m++) {
-      let sum = 0;
-      for (const x of samples) {
-        // Compute derivative of basis function using finite differences
-        const h = 1e-6;
-        const x1 = Math.max(this.inputRange[0], x - h);
-        const x2 = Math.min(this.inputRange[1], x + h);
-        
-        // Get basis function values at x1 and x2
-        const span1 = this.findKnotSpan(x1);
-        const basis1 = this.computeBasisFunctions(span1, x1);
-        const span2 = this.findKnotSpan(x2);
-        const basis2 = this.computeBasisFunctions(span2, x2);
-        
-        const p = this.degree;
-        
-        // Find basis function value for control point m at x1 and x2
-        let basisValue1 = 0;
-        for (let j = 0; j <= p; j++) {
-          const controlPointIndex = span1 - p + j;
-          if (controlPointIndex === m) {
-            basisValue1 = basis1[j];
-            break;
-          }
-        }
-        
-        let basisValue2 = 0;
-        for (let j = 0; j <= p; j++) {
-          const controlPointIndex = span2 - p + j;
-          if (controlPointIndex === m) {
-            basisValue2 = basis2[j];
-            break;
-          }
-        }
-        
-        // Compute derivative
-        const derivative = (x2 - x1) > 1e-10 ? (basisValue2 - basisValue1) / (x2 - x1) : 0;
-        sum += derivative * derivative;
+    evaluation.hasDerivatives = true;
+    const derivatives = evaluation.derivatives;
+    if (evaluation.slope === 0) {
+      for (let i = 0; i < evaluation.count; i++) {
+        derivatives[i] = 0;
       }
-      expectations.push(sum / numSamples);
+      return;
     }
     
-    return expectations;
+    const basisDerivatives =
+        this.getEvaluationDerivatives(evaluation, evaluation.point);
+    for (let i = 0; i < evaluation.count; i++) {
+      derivatives[i] = evaluation.slope * basisDerivatives[i];
+    }
   }
 
-  /** Evaluate the B-spline at input x using de Boor's algorithm */
-  evaluate(x: number): number {
-    // Clamp input to range
-    x = Math.max(this.inputRange[0], Math.min(this.inputRange[1], x));
-    
-    // Find the knot span
-    const span = this.findKnotSpan(x);
-    
-    // Evaluate using de Boor's algorithm
-    return this.deBoor(span, x);
+  /**
+   * Derivatives of the basis functions of an evaluation at x inside the
+   * range, in the order of evaluation.values
+   */
+  private getEvaluationDerivatives(evaluation: BasisEvaluation,
+      x: number): number[] {
+    return this.isSpline() ?
+        this.computeBasisFunctionDerivatives(evaluation.start + this.degree, x) :
+        this.basis.derivatives(x, this.controlPoints.length, this.inputRange);
+  }
+
+  /** Value of the function from an evaluation of its basis */
+  evaluateFromBasis(evaluation: BasisEvaluation): number {
+    const controlPoints = this.controlPoints;
+    const values = evaluation.values;
+    const start = evaluation.start;
+    let sum = 0;
+    for (let i = 0; i < evaluation.count; i++) {
+      sum += controlPoints[start + i] * values[i];
+    }
+    return sum;
+  }
+
+  /** Derivative of the function from an evaluation of its basis */
+  derivativeFromBasis(evaluation: BasisEvaluation): number {
+    this.evaluateBasisDerivatives(evaluation);
+    const controlPoints = this.controlPoints;
+    const derivatives = evaluation.derivatives;
+    const start = evaluation.start;
+    let sum = 0;
+    for (let i = 0; i < evaluation.count; i++) {
+      sum += controlPoints[start + i] * derivatives[i];
+    }
+    return sum;
   }
 
   /** Find the knot span index for parameter x */
@@ -346,17 +1220,70 @@ export class LearnableFunction {
     return d[p];
   }
 
-  /** Compute derivative using finite differences */
+  /**
+   * Exact derivative of the B-spline at input x. Outside the input range it
+   * follows the extrapolation policy (0 where the function is constant); at
+   * the range boundaries the one-sided derivative from inside the range is
+   * returned.
+   */
   derivative(x: number): number {
-    const h = 1e-6;
-    const x1 = Math.max(this.inputRange[0], x - h);
-    const x2 = Math.min(this.inputRange[1], x + h);
+    if (this.isInRange(x)) {
+      return this.derivativeInside(x);
+    }
+    const point = this.extrapolation.extend(x, this.inputRange);
+    const slope = point.scale * point.slope;
+    return slope === 0 ? 0 : slope * this.derivativeInside(point.t);
+  }
+
+  /** Derivative of the function at an input inside the range */
+  private derivativeInside(x: number): number {
+    if (!this.isSpline()) {
+      return this.weightedSum(this.basis.derivatives(
+          x, this.controlPoints.length, this.inputRange));
+    }
     
-    if (x2 - x1 < 1e-10) {
-      return 0;
+    const span = this.findKnotSpan(x);
+    const basisDerivatives = this.computeBasisFunctionDerivatives(span, x);
+    const p = this.degree;
+    
+    let result = 0;
+    for (let j = 0; j <= p; j++) {
+      result += this.controlPoints[span - p + j] * basisDerivatives[j];
+    }
+    return result;
+  }
+
+  /**
+   * Get the derivatives of all basis functions at input x, i.e. the
+   * derivative of the spline with respect to x for each control point.
+   */
+  getBasisDerivatives(x: number): number[] {
+    if (this.isInRange(x)) {
+      return this.getBasisDerivativesInside(x);
+    }
+    const point = this.extrapolation.extend(x, this.inputRange);
+    const slope = point.scale * point.slope;
+    return this.getBasisDerivativesInside(point.t).map(d => slope * d);
+  }
+
+  /** getBasisDerivatives for an input inside the range */
+  private getBasisDerivativesInside(x: number): number[] {
+    const derivatives: number[] = [];
+    for (let i = 0; i < this.controlPoints.length; i++) {
+      derivatives.push(0);
+    }
+    if (!this.isSpline()) {
+      return this.basis.derivatives(
+          x, this.controlPoints.length, this.inputRange);
     }
     
-    return (this.evaluate(x2) - this.evaluate(x1)) / (x2 - x1);
+    const span = this.findKnotSpan(x);
+    const basisDerivatives = this.computeBasisFunctionDerivatives(span, x);
+    const p = this.degree;
+    for (let j = 0; j <= p; j++) {
+      derivatives[span - p + j] = basisDerivatives[j];
+    }
+    return derivatives;
   }
 
   /** Update control points based on gradients */
@@ -368,7 +1295,22 @@ export class LearnableFunction {
 
   /** Get gradients with respect to control points for given input */
   getControlPointGradients(x: number): number[] {
-    x = Math.max(this.inputRange[0], Math.min(this.inputRange[1], x));
+    if (this.isInRange(x)) {
+      return this.getBasisValuesInside(x);
+    }
+    const point = this.extrapolation.extend(x, this.inputRange);
+    const values = this.getBasisValuesInside(point.t);
+    const derivatives = point.offset !== 0 ?
+        this.getBasisDerivativesInside(point.t) : null;
+    return values.map((value, i) => point.scale *
+        (derivatives != null ? value + point.offset * derivatives[i] : value));
+  }
+
+  /** Values of all basis functions at an input inside the range */
+  private getBasisValuesInside(x: number): number[] {
+    if (!this.isSpline()) {
+      return this.basis.values(x, this.controlPoints.length, this.inputRange);
+    }
     
     const span = this.findKnotSpan(x);
     const p = this.degree;
@@ -393,10 +1335,59 @@ export class LearnableFunction {
     return gradients;
   }
 
-  /** Compute basis functions for given span and parameter */
-  private computeBasisFunctions(span: number, x: number): number[] {
+  /**
+   * Compute the first derivatives of the degree+1 basis functions that are
+   * non-zero on the given span, using
+   * N'_{i,p} = p / (t_{i+p} - t_i) N_{i,p-1} - p / (t_{i+p+1} - t_{i+1}) N_{i+1,p-1}
+   */
+  private computeBasisFunctionDerivatives(span: number, x: number): number[] {
     const p = this.degree;
-    const basisFunctions = new Array(p + 1);
+    const derivatives: number[] = [];
+    if (p === 0) {
+      derivatives.push(0);
+      return derivatives;
+    }
+    
+    // lower[k] = N_{span-p+1+k, p-1}(x)
+    const lower = this.computeBasisFunctions(span, x, p - 1);
+    for (let j = 0; j <= p; j++) {
+      const i = span - p + j;
+      let derivative = 0;
+      if (j >= 1) {
+        const denom = this.knotVector[i + p] - this.knotVector[i];
+        if (denom > 0) {
+          derivative += p * lower[j - 1] / denom;
+        }
+      }
+      if (j <= p - 1) {
+        const denom = this.knotVector[i + p + 1] - this.knotVector[i + 1];
+        if (denom > 0) {
+          derivative -= p * lower[j] / denom;
+        }
+      }
+      derivatives.push(derivative);
+    }
+    return derivatives;
+  }
+
+  /**
+   * Compute the basis functions of the given degree (the spline degree by
+   * default) that are non-zero on the given span
+   */
+  private computeBasisFunctions(span: number, x: number, degree: number = this.degree): number[] {
+    const basisFunctions: number[] = new Array(degree + 1);
+    this.fillBasisFunctions(span, x, degree, basisFunctions);
+    return basisFunctions;
+  }
+
+  /** Write the basis functions of computeBasisFunctions into an array */
+  private fillBasisFunctions(
+    span: number,
+    x: number,
+    degree: number,
+    basisFunctions: {[index: number]: number}
+  ): void {
+    const p = degree;
     
     // Initialize
     let left = new Array(p + 1);
@@ -415,11 +1406,239 @@ export class LearnableFunction {
       }
       basisFunctions[j] = saved;
     }
-    
-    return basisFunctions;
   }
 }
 
+/**
+ * The basis functions of one grid evaluated at one input. Every node keeps
+ * the evaluations at its output (see KANNode.getBasisEvaluation), so all
+ * outgoing edges with the same grid share one evaluation and compute their
+ * output as a dot product with their control points.
+ *
+ * values[i] (and derivatives[i]) belong to basis function start + i, for
+ * i < count: the degree + 1 non-zero B-splines, or all functions of a
+ * global basis.
+ */
+export class BasisEvaluation {
+  /** Id of the evaluated grid (see LearnableFunction.gridId) */
+  gridId: number = -1;
+  /** Input the basis was evaluated at (before extrapolation) */
+  input: number = NaN;
+  /**
+   * Point inside the range the basis functions were evaluated at: the input,
+   * or its extrapolation point outside the range
+   */
+  point: number = NaN;
+  /**
+   * Factor of the derivatives of the basis functions at point in those at
+   * the input (see ExtrapolationPoint)
+   */
+  slope: number = 1;
+  start: number = 0;
+  count: number = 0;
+  values: Float64Array;
+  derivatives: Float64Array;
+  /** Whether the derivatives belong to the current input */
+  hasDerivatives: boolean = false;
+
+  constructor(numBasisFunctions: number) {
+    this.values = new Float64Array(numBasisFunctions);
+    this.derivatives = new Float64Array(numBasisFunctions);
+  }
+}
+
+/** Distribution of the edge inputs assumed by the Glorot-like initialization */
+export type InputDistribution = "normal" | "uniform";
+
+/** Expected squared basis values and derivatives of a B-spline grid */
+export interface BasisStatistics {
+  /** μ_m^(0) = E[B_m(x)^2] for each basis function m */
+  mu0: number[];
+  /** μ_m^(1) = E[B'_m(x)^2] for each basis function m */
+  mu1: number[];
+}
+
+/**
+ * Shared statistics, keyed by basis, grid, degree, range and input
+ * distribution
+ */
+const basisStatisticsCache: {[key: string]: BasisStatistics} = {};
+
+/**
+ * Largest σ_m of the Glorot-like initialization, relative to the plain Glorot
+ * scale sqrt(2 / (d_I + d_O)). Only basis functions with degenerate moments
+ * reach it (on the default grid, the outermost ones).
+ */
+const XAVIER_MAX_SIGMA_RATIO = 10;
+
+/** 5-point Gauss-Legendre nodes and weights on [-1, 1] */
+const GAUSS_LEGENDRE_NODES = [
+  -0.9061798459386640, -0.5384693101056831, 0,
+  0.5384693101056831, 0.9061798459386640
+];
+const GAUSS_LEGENDRE_WEIGHTS = [
+  0.2369268850561891, 0.4786286704993665, 0.5688888888888889,
+  0.4786286704993665, 0.2369268850561891
+];
+
+/** Standard normal cumulative distribution function */
+function normalCdf(x: number): number {
+  // Abramowitz and Stegun 7.1.26, absolute error below 1.5e-7
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 +
+      t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-z * z);
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/**
+ * Get μ_m^(0) = E[B_m(x)^2] and μ_m^(1) = E[B'_m(x)^2] for the basis
+ * functions of a uniform clamped B-spline grid (or of another basis family
+ * with gridSize + 1 functions), as used by the Glorot-like initialization.
+ * Inputs are distributed as N(0, 1) or uniformly over the range, and clamped
+ * to the range like in LearnableFunction.evaluate.
+ *
+ * The expectations are computed by Gauss-Legendre quadrature on each knot
+ * interval (gridSize equal intervals for other bases), so they are
+ * deterministic, and they are cached: all edges with the same grid share the
+ * returned arrays, which must not be modified.
+ */
+export function getBasisStatistics(
+  gridSize: number,
+  degree: number,
+  range: [number, number] = [-6, 6],
+  distribution: InputDistribution = "normal",
+  basis: Basis = Bases.BSPLINE
+): BasisStatistics {
+  const key = `${basis.name}|${gridSize}|${degree}|${range[0]},${range[1]}|` +
+      distribution;
+  if (key in basisStatisticsCache) {
+    return basisStatisticsCache[key];
+  }
+  
+  // A zero-initialized function gives access to the basis of the grid
+  const fn = new LearnableFunction(
+      "basis", gridSize, range, degree, 0, 1, 1, basis);
+  const numBasis = fn.controlPoints.length;
+  const [min, max] = range;
+  const pdf = distribution === "normal" ?
+      (x: number) => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI) :
+      (x: number) => 1 / (max - min);
+  
+  const mu0: number[] = [];
+  const mu1: number[] = [];
+  for (let m = 0; m < numBasis; m++) {
+    mu0.push(0);
+    mu1.push(0);
+  }
+  
+  const accumulate = (x: number, weight: number, withDerivative: boolean) => {
+    const values = fn.getControlPointGradients(x);
+    const derivatives = withDerivative ? fn.getBasisDerivatives(x) : null;
+    for (let m = 0; m < numBasis; m++) {
+      mu0[m] += weight * values[m] * values[m];
+      if (withDerivative) {
+        mu1[m] += weight * derivatives[m] * derivatives[m];
+      }
+    }
+  };
+  
+  // Piecewise polynomial between knots; subdivide for the Gaussian density
+  const breakpoints = fn.isSpline() ?
+      fn.knotVector.slice(fn.degree, fn.knotVector.length - fn.degree) :
+      getCenters(gridSize + 1, range);
+  const subdivisions = 8;
+  for (let i = 0; i < breakpoints.length - 1; i++) {
+    const width = (breakpoints[i + 1] - breakpoints[i]) / subdivisions;
+    for (let k = 0; k < subdivisions; k++) {
+      const center = breakpoints[i] + (k + 0.5) * width;
+      for (let q = 0; q < GAUSS_LEGENDRE_NODES.length; q++) {
+        const x = center + 0.5 * width * GAUSS_LEGENDRE_NODES[q];
+        const weight = 0.5 * width * GAUSS_LEGENDRE_WEIGHTS[q] * pdf(x);
+        accumulate(x, weight, true);
+      }
+    }
+  }
+  
+  // Inputs outside the range are clamped onto its boundaries, where the
+  // clamped function is flat
+  if (distribution === "normal") {
+    accumulate(min, normalCdf(min), false);
+    accumulate(max, 1 - normalCdf(max), false);
+  }
+  
+  const stats = {mu0, mu1};
+  basisStatisticsCache[key] = stats;
+  return stats;
+}
+
+/**
+ * Solves the linear system A x = b with Gaussian elimination and partial
+ * pivoting. Returns null if the matrix is (numerically) singular.
+ */
+export function solveLinearSystem(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  // Work on copies so the caller's matrices stay untouched
+  const m = a.map(row => row.slice());
+  const rhs = b.slice();
+  
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(m[pivot][col]) < 1e-14) {
+      return null;
+    }
+    if (pivot !== col) {
+      const tmpRow = m[col];
+      m[col] = m[pivot];
+      m[pivot] = tmpRow;
+      const tmp = rhs[col];
+      rhs[col] = rhs[pivot];
+      rhs[pivot] = tmp;
+    }
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) {
+        m[row][k] -= factor * m[col][k];
+      }
+      rhs[row] -= factor * rhs[col];
+    }
+  }
+  
+  const x: number[] = new Array(n);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rhs[row];
+    for (let k = row + 1; k < n; k++) {
+      sum -= m[row][k] * x[k];
+    }
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Activation statistics of an edge: the decayed histograms with their
+ * ranges, the observed ranges and the recent inputs for grid updates
+ */
+export interface EdgeStatistics {
+  activationHistogram: number[];
+  outputHistogram: number[];
+  outputHistogramAbsSum: number;
+  histogramRange: [number, number];
+  outputHistogramRange: [number, number];
+  observedInputRange: [number, number];
+  observedOutputRange: [number, number];
+  useAdaptiveRanges: boolean;
+  inputSamples: number[];
+  inputSampleIndex: number;
+}
+
 /**
  * A KAN edge that connects two nodes with a learnable function
  */
@@ -428,20 +1647,57 @@ export class KANEdge {
   sourceNode: KANNode;
   destNode: KANNode;
   learnableFunction: LearnableFunction;
+  /** Base function of the residual term */
+  baseFunction: BaseFunction;
+  /** Trainable weight of the base function */
+  baseWeight: number = 0;
+  /** Trainable weight of the spline */
+  splineWeight: number = 1;
+  /**
+   * Symbolic function the edge is fixed to. When set, it replaces the spline
+   * and the residual term, and its coefficients are not trained.
+   */
+  symbolic: SymbolicFit = null;
   lastInput: number = 0;
-  accGradients: number[] = [];
+  /** Edge output for the last input (0 while inactive) */
+  lastOutput: number = 0;
+  /** Spline output for the last input, needed for the spline weight gradient */
+  lastSplineOutput: number = 0;
+  /**
+   * Derivative of the objective with respect to |output|, backpropagated
+   * along with the loss (the sparsity penalty, see computeKANLossAndGradient)
+   */
+  absOutputDer: number = 0;
+  accGradients: Float64Array;
+  accBaseWeightGradient: number = 0;
+  accSplineWeightGradient: number = 0;
   numAccumulatedGrads: number = 0;
+  /** Sum of |edge output| over the accumulated examples */
+  accAbsOutput: number = 0;
+  /** Sum of d|edge output|/d(parameter) over the accumulated examples */
+  accAbsOutputGradients: Float64Array = new Float64Array(0);
   isActive: boolean = true;
+  /** Optimizer buffers for the parameters of this edge */
+  optimizerState: OptimizerState = createOptimizerState();
+  /** Optimizer the buffers belong to (null before the first update) */
+  optimizer: Optimizer = null;
   
   // Histogram tracking for activation visualization
   activationHistogram: number[] = [];
   outputHistogram: number[] = [];
+  /** Sum of |output| with the same decay as the output histogram counts */
+  private outputHistogramAbsSum: number = 0;
   histogramBins: number = 20;
   histogramRange: [number, number] = [-6, 6];
   outputHistogramRange: [number, number] = [-1, 1];
   histogramDecayFactor: number = 0.995; // Decay old counts: 0.99 = faster decay, 0.999 = slower decay
   outputHistogramDecayFactor: number = 0.95; // Faster decay for outputs to respond quickly to control point changes
   
+  // Ring buffer of recent inputs, used to adapt the spline grid to the data
+  inputSamples: number[] = [];
+  maxInputSamples: number = 200;
+  private inputSampleIndex: number = 0;
+  
   // Track observed ranges for adaptive histograms
   private observedInputMin: number = Infinity;
   private observedInputMax: number = -Infinity;
@@ -456,28 +1712,112 @@ export class KANEdge {
     degree: number = 3,
     initNoise: number | "xavier" | "linear" = 0.3,
     fanIn: number = 1,
-    fanOut: number = 1
+    fanOut: number = 1,
+    baseFunction: BaseFunction = BaseFunctions.ZERO,
+    basis: Basis = Bases.BSPLINE,
+    inputRange: [number, number] = [-6, 6]
   ) {
     this.id = source.id + "-" + dest.id;
     this.sourceNode = source;
     this.destNode = dest;
     this.learnableFunction = new LearnableFunction(
-      this.id, gridSize, [-6, 6], degree, initNoise, fanIn, fanOut
+      this.id, gridSize, [inputRange[0], inputRange[1]], degree, initNoise,
+      fanIn, fanOut, basis
     );
+    this.baseFunction = baseFunction;
+    this.initializeBaseWeight(initNoise, fanIn, fanOut);
     
-    const numControlPoints = gridSize + 1;
-    this.accGradients = [];
-    for (let i = 0; i < numControlPoints; i++) {
-      this.accGradients.push(0);
-    }
+    this.accGradients = new Float64Array(gridSize + 1);
     
     // Initialize histogram
     this.resetHistogram();
   }
 
+  /**
+   * Initialize the base weight w_b following the control point
+   * initialization scheme; the spline weight w_s starts at 1.
+   */
+  private initializeBaseWeight(
+    initNoise: number | "xavier" | "linear",
+    fanIn: number,
+    fanOut: number
+  ): void {
+    this.splineWeight = 1;
+    if (!this.hasResidual()) {
+      this.baseWeight = 0;
+      return;
+    }
+    
+    const safeFanIn = Math.max(1, fanIn | 0);
+    const safeFanOut = Math.max(1, fanOut | 0);
+    if (initNoise === "xavier") {
+      // Glorot uniform
+      const limit = Math.sqrt(6 / (safeFanIn + safeFanOut));
+      this.baseWeight = limit * (2 * Math.random() - 1);
+    } else if (initNoise === "linear") {
+      // Deterministic, like the linear spline initialization
+      this.baseWeight = 1 / Math.sqrt(safeFanIn);
+    } else {
+      // pykan's default scale_base: U(-1, 1) / sqrt(fanIn)
+      this.baseWeight = (2 * Math.random() - 1) / Math.sqrt(safeFanIn);
+    }
+  }
+
+  /** Whether the edge has a (non-zero) residual base function */
+  hasResidual(): boolean {
+    return this.baseFunction !== BaseFunctions.ZERO;
+  }
+
+  /** Evaluate the edge function phi(x) = w_b * b(x) + w_s * spline(x) */
+  evaluate(x: number): number {
+    if (this.symbolic) {
+      const {fn, a, b, c, d} = this.symbolic;
+      return c * fn.output(a * x + b) + d;
+    }
+    const splineOutput = this.learnableFunction.evaluate(x);
+    if (!this.hasResidual()) {
+      return splineOutput;
+    }
+    return this.baseWeight * this.baseFunction.output(x) +
+        this.splineWeight * splineOutput;
+  }
+
+  /** Derivative of the edge function with respect to its input */
+  derivative(x: number): number {
+    if (this.symbolic) {
+      const {fn, a, b, c} = this.symbolic;
+      return c * a * fn.der(a * x + b);
+    }
+    const splineDer = this.learnableFunction.derivative(x);
+    if (!this.hasResidual()) {
+      return splineDer;
+    }
+    return this.baseWeight * this.baseFunction.der(x) +
+        this.splineWeight * splineDer;
+  }
+
+  /**
+   * Derivative of the edge function at the last input, from the basis
+   * evaluation shared with the other output edges of the source node
+   */
+  lastInputDerivative(): number {
+    if (this.symbolic) {
+      return this.derivative(this.lastInput);
+    }
+    const splineDer = this.learnableFunction.derivativeFromBasis(
+        this.sourceNode.getBasisEvaluation(
+            this.learnableFunction, this.lastInput));
+    if (!this.hasResidual()) {
+      return splineDer;
+    }
+    return this.baseWeight * this.baseFunction.der(this.lastInput) +
+        this.splineWeight * splineDer;
+  }
+
   /** Forward pass through the edge */
   forward(input: number, recordHistogram: boolean = true): number {
     this.lastInput = input;
+    this.lastOutput = 0;
     
     // If edge is deactivated, return 0
     if (!this.isActive) {
@@ -487,10 +1827,25 @@ export class KANEdge {
     if (recordHistogram) {
       this.recordActivation(input);
     }
-    const output = this.learnableFunction.evaluate(input);
+    if (this.symbolic) {
+      const symbolicOutput = this.evaluate(input);
+      if (recordHistogram) {
+        this.recordOutput(symbolicOutput);
+      }
+      this.lastOutput = symbolicOutput;
+      return symbolicOutput;
+    }
+    this.lastSplineOutput = this.learnableFunction.evaluateFromBasis(
+        this.sourceNode.getBasisEvaluation(this.learnableFunction, input));
+    let output = this.lastSplineOutput;
+    if (this.hasResidual()) {
+      output = this.baseWeight * this.baseFunction.output(input) +
+          this.splineWeight * this.lastSplineOutput;
+    }
     if (recordHistogram) {
       this.recordOutput(output);
     }
+    this.lastOutput = output;
     return output;
   }
   
@@ -505,8 +1860,16 @@ export class KANEdge {
     this.observedInputMin = Math.min(this.observedInputMin, input);
     this.observedInputMax = Math.max(this.observedInputMax, input);
     
+    // Keep the most recent inputs for grid updates
+    if (this.inputSamples.length < this.maxInputSamples) {
+      this.inputSamples.push(input);
+    } else {
+      this.inputSamples[this.inputSampleIndex] = input;
+    }
+    this.inputSampleIndex = (this.inputSampleIndex + 1) % this.maxInputSamples;
+    
     // Find bin index (no clipping - values outside range go to edge bins)
-    const [min, max] = this.histogramRange;
+    const [min, max] = this.getInputHistogramRange();
     const binWidth = (max - min) / this.histogramBins;
     const binIndex = Math.floor((input - min) / binWidth);
     const clampedIndex = Math.max(0, Math.min(this.histogramBins - 1, binIndex));
@@ -521,6 +1884,8 @@ export class KANEdge {
     for (let i = 0; i < this.histogramBins; i++) {
       this.outputHistogram[i] *= this.outputHistogramDecayFactor;
     }
+    this.outputHistogramAbsSum =
+        this.outputHistogramAbsSum * this.outputHistogramDecayFactor + Math.abs(output);
     
     // Track observed range for adaptive histograms
     this.observedOutputMin = Math.min(this.observedOutputMin, output);
@@ -576,9 +1941,19 @@ export class KANEdge {
     return Math.sqrt(variance);
   }
   
+  /**
+   * Importance score used for pruning: the mean |output| of the edge over
+   * the recent activations, weighted like the output histogram counts
+   */
+  getImportance(): number {
+    const totalCount = this.outputHistogram.reduce((sum, count) => sum + count, 0);
+    if (totalCount === 0) return 0;
+    return this.outputHistogramAbsSum / totalCount;
+  }
+  
   /** Calculate standard deviation of input activations from histogram */
   getInputActivationStd(): number {
-    return this.calculateStdFromHistogram(this.activationHistogram, this.histogramRange);
+    return this.calculateStdFromHistogram(this.activationHistogram, this.getInputHistogramRange());
   }
   
   /** Calculate standard deviation of output activations from histogram */
@@ -586,6 +1961,26 @@ export class KANEdge {
     return this.calculateStdFromHistogram(this.outputHistogram, this.outputHistogramRange);
   }
   
+  /**
+   * Range of the input histogram: the input range of the function, unless
+   * adaptive ranges are enabled
+   */
+  getInputHistogramRange(): [number, number] {
+    return this.useAdaptiveRanges ?
+        this.histogramRange : this.learnableFunction.inputRange;
+  }
+
+  /**
+   * Move the function onto a new input range (see
+   * LearnableFunction.setInputRange). The histograms and optimizer buffers
+   * refer to the old grid, so they are reset.
+   */
+  setInputRange(range: [number, number]): void {
+    this.learnableFunction.setInputRange(range);
+    this.resetOptimizerState();
+    this.resetHistogram();
+  }
+
   /** Get observed input activation range */
   getObservedInputRange(): [number, number] {
     return [this.observedInputMin, this.observedInputMax];
@@ -623,9 +2018,10 @@ export class KANEdge {
     let minOutput = Infinity;
     let maxOutput = -Infinity;
     
+    const [min, max] = this.learnableFunction.inputRange;
     for (let i = 0; i <= 100; i++) {
-      const x = -6 + (12 * i) / 100;
-      const y = this.learnableFunction.evaluate(x);
+      const x = min + (max - min) * i / 100;
+      const y = this.evaluate(x);
       minOutput = Math.min(minOutput, y);
       maxOutput = Math.max(maxOutput, y);
     }
@@ -635,10 +2031,43 @@ export class KANEdge {
     this.outputHistogramRange = [minOutput - padding, maxOutput + padding];
   }
   
+  /** Copy of the activation statistics, e.g. to send them to another thread */
+  getStatistics(): EdgeStatistics {
+    return {
+      activationHistogram: this.activationHistogram.slice(),
+      outputHistogram: this.outputHistogram.slice(),
+      outputHistogramAbsSum: this.outputHistogramAbsSum,
+      histogramRange: [this.histogramRange[0], this.histogramRange[1]],
+      outputHistogramRange:
+          [this.outputHistogramRange[0], this.outputHistogramRange[1]],
+      observedInputRange: this.getObservedInputRange(),
+      observedOutputRange: this.getObservedOutputRange(),
+      useAdaptiveRanges: this.useAdaptiveRanges,
+      inputSamples: this.inputSamples.slice(),
+      inputSampleIndex: this.inputSampleIndex
+    };
+  }
+
+  /** Replace the activation statistics (see getStatistics) */
+  setStatistics(stats: EdgeStatistics): void {
+    this.activationHistogram = stats.activationHistogram.slice();
+    this.outputHistogram = stats.outputHistogram.slice();
+    this.outputHistogramAbsSum = stats.outputHistogramAbsSum;
+    this.histogramRange = [stats.histogramRange[0], stats.histogramRange[1]];
+    this.outputHistogramRange =
+        [stats.outputHistogramRange[0], stats.outputHistogramRange[1]];
+    [this.observedInputMin, this.observedInputMax] = stats.observedInputRange;
+    [this.observedOutputMin, this.observedOutputMax] = stats.observedOutputRange;
+    this.useAdaptiveRanges = stats.useAdaptiveRanges;
+    this.inputSamples = stats.inputSamples.slice();
+    this.inputSampleIndex = stats.inputSampleIndex;
+  }
+
   /** Reset histogram */
   resetHistogram(): void {
     this.activationHistogram = [];
     this.outputHistogram = [];
+    this.outputHistogramAbsSum = 0;
     for (let i = 0; i < this.histogramBins; i++) {
       this.activationHistogram.push(0);
       this.outputHistogram.push(0);
@@ -649,48 +2078,214 @@ export class KANEdge {
     this.observedInputMax = -Infinity;
     this.observedOutputMin = Infinity;
     this.observedOutputMax = -Infinity;
+    
+    // Reset recorded input samples
+    this.inputSamples = [];
+    this.inputSampleIndex = 0;
+  }
+  
+  /**
+   * Adapt the spline grid to the recently observed inputs, preserving the
+   * learned function. Returns false if no inputs have been recorded yet.
+   */
+  updateGridFromSamples(gridEps: number = 0.02): boolean {
+    if (this.inputSamples.length === 0) {
+      return false;
+    }
+    this.learnableFunction.updateGridFromSamples(this.inputSamples, gridEps);
+    // The refit control points no longer match the optimizer buffers
+    this.resetOptimizerState();
+    return true;
+  }
+
+  /** Accumulate gradients for parameter updates */
+  accumulateGradients(outputGradient: number): void {
+    // Don't accumulate gradients if edge is inactive or fixed to a formula
+    if (!this.isActive || this.symbolic) {
+      return;
+    }
+    
+    // The gradients with respect to the control points are the basis values,
+    // non-zero only from basis.start to basis.start + basis.count
+    const basis = this.sourceNode.getBasisEvaluation(
+        this.learnableFunction, this.lastInput);
+    const numControlPoints = this.learnableFunction.controlPoints.length;
+    
+    // The spline enters the edge function scaled by w_s
+    const splineGradient = this.hasResidual() ?
+        outputGradient * this.splineWeight : outputGradient;
+    
+    // Accumulate gradients
+    for (let i = 0; i < basis.count; i++) {
+      this.accGradients[basis.start + i] += splineGradient * basis.values[i];
+    }
+    
+    if (this.hasResidual()) {
+      this.accBaseWeightGradient +=
+          outputGradient * this.baseFunction.output(this.lastInput);
+      this.accSplineWeightGradient += outputGradient * this.lastSplineOutput;
+    }
+    
+    // Statistics of |output| for the sparsity regularization of mini-batches
+    // (see applyKANRegularization). The edge's input is treated as a
+    // constant, so only the edge's own parameters receive that gradient.
+    const baseOutput = this.hasResidual() ?
+        this.baseFunction.output(this.lastInput) : 0;
+    const output = this.hasResidual() ?
+        this.baseWeight * baseOutput + this.splineWeight * this.lastSplineOutput :
+        this.lastSplineOutput;
+    const sign = output > 0 ? 1 : (output < 0 ? -1 : 0);
+    this.accAbsOutput += Math.abs(output);
+    const numParams = numControlPoints + (this.hasResidual() ? 2 : 0);
+    if (this.accAbsOutputGradients.length !== numParams) {
+      this.accAbsOutputGradients = new Float64Array(numParams);
+    }
+    const splineScale = this.hasResidual() ? this.splineWeight : 1;
+    for (let i = 0; i < basis.count; i++) {
+      this.accAbsOutputGradients[basis.start + i] +=
+          sign * splineScale * basis.values[i];
+    }
+    if (this.hasResidual()) {
+      this.accAbsOutputGradients[numControlPoints] += sign * baseOutput;
+      this.accAbsOutputGradients[numControlPoints + 1] +=
+          sign * this.lastSplineOutput;
+    }
+    
+    this.numAccumulatedGrads++;
+  }
+
+  /** Mean |edge output| over the accumulated examples */
+  getMeanAbsOutput(): number {
+    return this.accAbsOutput / Math.max(1, this.numAccumulatedGrads);
+  }
+
+  /**
+   * Add coefficient * d(mean |edge output|)/d(parameters) to the accumulated
+   * gradients, so that it survives the averaging in getAveragedGradients
+   */
+  addAbsOutputGradient(coefficient: number): void {
+    const numControlPoints = this.accGradients.length;
+    for (let i = 0; i < numControlPoints; i++) {
+      this.accGradients[i] += coefficient * this.accAbsOutputGradients[i];
+    }
+    if (this.hasResidual()) {
+      this.accBaseWeightGradient +=
+          coefficient * this.accAbsOutputGradients[numControlPoints];
+      this.accSplineWeightGradient +=
+          coefficient * this.accAbsOutputGradients[numControlPoints + 1];
+    }
+  }
+
+  /**
+   * Get the trainable parameters as a flat vector: the control points,
+   * followed by w_b and w_s if the edge has a residual term
+   */
+  getParameters(): number[] {
+    if (this.symbolic) {
+      return [];
+    }
+    const params: number[] =
+        Array.prototype.slice.call(this.learnableFunction.controlPoints);
+    if (this.hasResidual()) {
+      params.push(this.baseWeight, this.splineWeight);
+    }
+    return params;
   }
 
-  /** Accumulate gradients for parameter updates */
-  accumulateGradients(outputGradient: number): void {
-    // Don't accumulate gradients if edge is inactive
-    if (!this.isActive) {
+  /** Set the trainable parameters from a flat vector (see getParameters) */
+  setParameters(params: number[]): void {
+    if (this.symbolic) {
       return;
     }
-    
-    // Get gradients with respect to control points
-    const controlPointGradients = this.learnableFunction.getControlPointGradients(this.lastInput);
-    
-    // Accumulate gradients
-    for (let i = 0; i < this.accGradients.length && i < controlPointGradients.length; i++) {
-      this.accGradients[i] += outputGradient * controlPointGradients[i];
+    const numControlPoints = this.learnableFunction.controlPoints.length;
+    for (let i = 0; i < numControlPoints; i++) {
+      this.learnableFunction.controlPoints[i] = params[i];
     }
-    
-    this.numAccumulatedGrads++;
+    if (this.hasResidual()) {
+      this.baseWeight = params[numControlPoints];
+      this.splineWeight = params[numControlPoints + 1];
+    }
+  }
+
+  /** Get the accumulated gradients averaged over the accumulated examples */
+  getAveragedGradients(): number[] {
+    if (this.symbolic) {
+      return [];
+    }
+    const n = Math.max(1, this.numAccumulatedGrads);
+    const gradients: number[] = [];
+    for (let i = 0; i < this.accGradients.length; i++) {
+      gradients.push(this.accGradients[i] / n);
+    }
+    if (this.hasResidual()) {
+      gradients.push(this.accBaseWeightGradient / n, this.accSplineWeightGradient / n);
+    }
+    return gradients;
+  }
+
+  /**
+   * Fix the edge to a symbolic function, or restore the spline and residual
+   * term with null. The parameter vector changes, so gradients and optimizer
+   * buffers are cleared.
+   */
+  setSymbolic(fit: SymbolicFit): void {
+    this.symbolic = fit;
+    this.clearGradients();
+    this.resetOptimizerState();
+  }
+
+  /** Clear the optimizer buffers, e.g. after the parameters were refit */
+  resetOptimizerState(): void {
+    this.optimizerState = createOptimizerState();
   }
 
   /** Update parameters using accumulated gradients */
-  updateParameters(learningRate: number): void {
+  updateParameters(learningRate: number, optimizer: Optimizer = Optimizers.SGD): void {
     // Don't update parameters if edge is inactive
     if (!this.isActive) {
       return;
     }
     
+    // Buffers of a different optimizer are meaningless
+    if (optimizer !== this.optimizer) {
+      this.optimizer = optimizer;
+      this.resetOptimizerState();
+    }
+    
     if (this.numAccumulatedGrads > 0) {
-      const avgGradients = this.accGradients.map(g => g / this.numAccumulatedGrads);
-      this.learnableFunction.updateParameters(avgGradients, learningRate);
+      const params = this.getParameters();
+      optimizer.update(params, this.getAveragedGradients(),
+          this.optimizerState, learningRate);
+      this.setParameters(params);
       
-      // Reset accumulators
-      for (let i = 0; i < this.accGradients.length; i++) {
-        this.accGradients[i] = 0;
-      }
-      this.numAccumulatedGrads = 0;
+      this.clearGradients();
+    }
+  }
+
+  /** Reset the gradient accumulators */
+  clearGradients(): void {
+    for (let i = 0; i < this.accGradients.length; i++) {
+      this.accGradients[i] = 0;
     }
+    this.accBaseWeightGradient = 0;
+    this.accSplineWeightGradient = 0;
+    this.numAccumulatedGrads = 0;
+    this.accAbsOutput = 0;
+    this.accAbsOutputGradients = new Float64Array(0);
   }
 }
 
+/** Weight of the old running statistics in each update of a normalization */
+export const NORMALIZATION_MOMENTUM = 0.99;
+/** Added to the running variance before dividing by its square root */
+export const NORMALIZATION_EPSILON = 1e-5;
+
 /**
- * A node in a Kolmogorov-Arnold Network
+ * A node in a Kolmogorov-Arnold Network. Its output is the sum of its input
+ * edges, optionally normalized with running statistics and then mapped by a
+ * learnable scale and bias:
+ *
+ *   output = scale * (sum - runningMean) / sqrt(runningVariance + eps) + bias
  */
 export class KANNode {
   id: string;
@@ -700,30 +2295,147 @@ export class KANNode {
   outputEdges: KANEdge[] = [];
   /** Cached output value */
   output: number = 0;
+  /** Sum of the input edge outputs of the last forward pass */
+  sum: number = 0;
   /** Error derivative with respect to this node's output */
   outputDer: number = 0;
   /** Whether this node is active */
   isActive: boolean = true;
+  /** Whether the output goes through the learnable scale and bias */
+  hasAffine: boolean = false;
+  /** Trainable scale of the output, as pykan's node_scale */
+  scale: number = 1;
+  /** Trainable bias of the output, as pykan's node_bias */
+  bias: number = 0;
+  /** Whether the sum is normalized with the running statistics */
+  normalize: boolean = false;
+  /** Running mean of the sum */
+  runningMean: number = 0;
+  /** Running variance of the sum */
+  runningVariance: number = 1;
+  /** Number of sums the running statistics have seen */
+  numStatistics: number = 0;
+  /**
+   * Whether forward passes update the running statistics (training) or only
+   * use them (evaluation); see setKANTraining
+   */
+  isTraining: boolean = false;
+  accScaleGradient: number = 0;
+  accBiasGradient: number = 0;
+  numAccumulatedGrads: number = 0;
+  /** Optimizer buffers for the scale and bias */
+  optimizerState: OptimizerState = createOptimizerState();
+  /** Optimizer the buffers belong to (null before the first update) */
+  optimizer: Optimizer = null;
+  /** Normalized sum of the last forward pass, the input of the affine map */
+  private lastNormalized: number = 0;
+  /**
+   * Basis evaluations at the output, one per distinct grid of the output
+   * edges, so the basis is computed once per sample and grid
+   */
+  private basisEvaluations: BasisEvaluation[] = [];
 
   constructor(id: string) {
     this.id = id;
   }
 
-  /** Forward pass: sum all edge outputs */
+  /**
+   * Evaluation of the basis of fn's grid at x, shared by the output edges
+   * whose functions have the same grid. It is only recomputed when the
+   * input or the grid changed.
+   */
+  getBasisEvaluation(fn: LearnableFunction, x: number): BasisEvaluation {
+    for (const evaluation of this.basisEvaluations) {
+      if (evaluation.gridId === fn.gridId) {
+        if (evaluation.input !== x) {
+          fn.evaluateBasis(x, evaluation);
+        }
+        return evaluation;
+      }
+    }
+    // Drop the evaluations of grids that are gone (replaced functions)
+    if (this.basisEvaluations.length >= this.outputEdges.length) {
+      this.basisEvaluations = [];
+    }
+    const evaluation = new BasisEvaluation(fn.controlPoints.length);
+    fn.evaluateBasis(x, evaluation);
+    this.basisEvaluations.push(evaluation);
+    return evaluation;
+  }
+
+  /**
+   * Forward pass: sum all edge outputs, then normalize and apply the scale
+   * and bias if enabled
+   */
   forward(recordHistogram: boolean = true): number {
     // If node is deactivated, output is 0
     if (!this.isActive) {
+      this.sum = 0;
       this.output = 0;
       return 0;
     }
     
-    this.output = 0;
+    this.sum = 0;
     for (const edge of this.inputEdges) {
-      this.output += edge.forward(edge.sourceNode.output, recordHistogram);
+      this.sum += edge.forward(edge.sourceNode.output, recordHistogram);
     }
+    if (this.normalize && this.isTraining) {
+      this.updateStatistics(this.sum);
+    }
+    this.lastNormalized = this.normalize ?
+        (this.sum - this.runningMean) / this.getRunningStd() : this.sum;
+    this.output = this.hasAffine ?
+        this.scale * this.lastNormalized + this.bias : this.lastNormalized;
     return this.output;
   }
 
+  /**
+   * Add a sum to the running statistics. The first sums are averaged
+   * equally, later ones with weight 1 - NORMALIZATION_MOMENTUM.
+   */
+  private updateStatistics(sum: number): void {
+    const rate = Math.max(1 - NORMALIZATION_MOMENTUM,
+        1 / (this.numStatistics + 1));
+    const delta = sum - this.runningMean;
+    this.runningMean += rate * delta;
+    this.runningVariance =
+        (1 - rate) * (this.runningVariance + rate * delta * delta);
+    this.numStatistics++;
+  }
+
+  /** Standard deviation the normalization divides by */
+  getRunningStd(): number {
+    return Math.sqrt(this.runningVariance + NORMALIZATION_EPSILON);
+  }
+
+  /**
+   * The output as one affine map scale * sum + bias of the sum, with the
+   * running statistics held constant as in evaluation mode
+   */
+  getOutputAffine(): {scale: number, bias: number} {
+    const std = this.normalize ? this.getRunningStd() : 1;
+    const mean = this.normalize ? this.runningMean : 0;
+    const scale = this.hasAffine ? this.scale : 1;
+    const bias = this.hasAffine ? this.bias : 0;
+    return {scale: scale / std, bias: bias - scale * mean / std};
+  }
+
+  /** Forget the running statistics */
+  resetStatistics(): void {
+    this.runningMean = 0;
+    this.runningVariance = 1;
+    this.numStatistics = 0;
+  }
+
+  /**
+   * Derivative of the output with respect to the sum. The running
+   * statistics count as constants, also while training updates them.
+   */
+  getSumDerivative(): number {
+    const normalizedDer = this.normalize ? 1 / this.getRunningStd() : 1;
+    return this.hasAffine ? this.scale * normalizedDer : normalizedDer;
+  }
+
   /** Backward pass: distribute gradients to input edges */
   backward(): void {
     // Don't backpropagate if node is inactive
@@ -731,12 +2443,77 @@ export class KANNode {
       return;
     }
     
+    if (this.hasAffine) {
+      this.accScaleGradient += this.outputDer * this.lastNormalized;
+      this.accBiasGradient += this.outputDer;
+      this.numAccumulatedGrads++;
+    }
+    const sumDer = this.outputDer * this.getSumDerivative();
     for (const edge of this.inputEdges) {
-      const inputGrad = this.outputDer * edge.learnableFunction.derivative(edge.lastInput);
-      edge.accumulateGradients(this.outputDer);
-      edge.sourceNode.outputDer += inputGrad;
+      const output = edge.lastOutput;
+      const outputDer = sumDer + edge.absOutputDer *
+          (output > 0 ? 1 : (output < 0 ? -1 : 0));
+      edge.accumulateGradients(outputDer);
+      edge.sourceNode.outputDer += outputDer * edge.lastInputDerivative();
     }
   }
+
+  /** The trainable parameters: scale and bias if the node has them */
+  getParameters(): number[] {
+    return this.hasAffine ? [this.scale, this.bias] : [];
+  }
+
+  /** Set the trainable parameters from a vector (see getParameters) */
+  setParameters(params: number[]): void {
+    if (this.hasAffine) {
+      [this.scale, this.bias] = params;
+    }
+  }
+
+  /** Get the accumulated gradients averaged over the accumulated examples */
+  getAveragedGradients(): number[] {
+    if (!this.hasAffine) {
+      return [];
+    }
+    const n = Math.max(1, this.numAccumulatedGrads);
+    return [this.accScaleGradient / n, this.accBiasGradient / n];
+  }
+
+  /** Copy the scale, bias and normalization of another node */
+  copyTransform(node: KANNode): void {
+    this.hasAffine = node.hasAffine;
+    this.scale = node.scale;
+    this.bias = node.bias;
+    this.normalize = node.normalize;
+    this.runningMean = node.runningMean;
+    this.runningVariance = node.runningVariance;
+    this.numStatistics = node.numStatistics;
+  }
+
+  /** Update the scale and bias using the accumulated gradients */
+  updateParameters(learningRate: number,
+      optimizer: Optimizer = Optimizers.SGD): void {
+    if (!this.isActive || this.numAccumulatedGrads === 0) {
+      return;
+    }
+    // Buffers of a different optimizer are meaningless
+    if (optimizer !== this.optimizer) {
+      this.optimizer = optimizer;
+      this.optimizerState = createOptimizerState();
+    }
+    const params = this.getParameters();
+    optimizer.update(params, this.getAveragedGradients(),
+        this.optimizerState, learningRate);
+    this.setParameters(params);
+    this.clearGradients();
+  }
+
+  /** Reset the gradient accumulators */
+  clearGradients(): void {
+    this.accScaleGradient = 0;
+    this.accBiasGradient = 0;
+    this.numAccumulatedGrads = 0;
+  }
 }
 
 /**
@@ -747,7 +2524,12 @@ export function buildKANNetwork(
   inputIds: string[],
   gridSize: number = 5,
   degree: number = 3,
-  initNoise: number | "xavier" | "linear" = 0.3
+  initNoise: number | "xavier" | "linear" = 0.3,
+  baseFunction: BaseFunction = BaseFunctions.ZERO,
+  basis: Basis = Bases.BSPLINE,
+  extrapolation: Extrapolation = Extrapolations.CLAMP,
+  affine: boolean = false,
+  normalize: boolean = false
 ): KANNode[][] {
   const numLayers = networkShape.length;
   let nodeId = 1;
@@ -763,6 +2545,10 @@ export function buildKANNetwork(
       const id = isInputLayer ? inputIds[i] : nodeId.toString();
       if (!isInputLayer) nodeId++;
       const node = new KANNode(id);
+      // Normalization sits between layers, so the outputs are not normalized
+      node.hasAffine = affine && !isInputLayer;
+      node.normalize = normalize && !isInputLayer &&
+          layerIdx < numLayers - 1;
       currentLayer.push(node);
     }
   }
@@ -777,8 +2563,10 @@ export function buildKANNetwork(
     for (const destNode of currentLayer) {
       for (const sourceNode of prevLayer) {
         const edge = new KANEdge(
-          sourceNode, destNode, gridSize, degree, initNoise, fanIn, fanOut
+          sourceNode, destNode, gridSize, degree, initNoise, fanIn, fanOut,
+          baseFunction, basis
         );
+        edge.learnableFunction.setExtrapolation(extrapolation);
         sourceNode.outputEdges.push(edge);
         destNode.inputEdges.push(edge);
       }
@@ -789,9 +2577,10 @@ export function buildKANNetwork(
 }
 
 /**
- * Forward propagation through KAN network
+ * Forward propagation through KAN network. Returns the outputs of all
+ * output nodes.
  */
-export function kanForwardProp(network: KANNode[][], inputs: number[], recordHistogram: boolean = true): number {
+export function kanForwardProp(network: KANNode[][], inputs: number[], recordHistogram: boolean = true): number[] {
   const inputLayer = network[0];
   if (inputs.length !== inputLayer.length) {
     throw new Error("Number of inputs must match input layer size");
@@ -810,20 +2599,28 @@ export function kanForwardProp(network: KANNode[][], inputs: number[], recordHis
     }
   }
 
-  return network[network.length - 1][0].output;
+  return network[network.length - 1].map(node => node.output);
 }
 
 /**
- * Backward propagation through KAN network
+ * Backward propagation through KAN network, against a target vector with
+ * one entry per output node (or a number for a single output)
  */
 export function kanBackProp(
   network: KANNode[][],
-  target: number,
-  errorFunc: ErrorFunction
+  target: number | number[],
+  errorFunc: KANErrorFunction
 ): void {
-  // Initialize output gradient
-  const outputNode = network[network.length - 1][0];
-  outputNode.outputDer = errorFunc.der(outputNode.output, target);
+  // Initialize output gradients
+  const outputNodes = network[network.length - 1];
+  const targets = toTargetVector(target);
+  if (isVectorErrorFunction(errorFunc)) {
+    const ders = errorFunc.der(outputNodes.map(node => node.output), targets);
+    outputNodes.forEach((node, i) => node.outputDer = ders[i]);
+  } else {
+    outputNodes.forEach((node, i) =>
+        node.outputDer = errorFunc.der(node.output, targets[i]));
+  }
 
   // Backward propagate through layers
   for (let layerIdx = network.length - 1; layerIdx >= 1; layerIdx--) {
@@ -845,25 +2642,549 @@ export function kanBackProp(
 }
 
 /**
- * Update KAN network parameters
+ * Update KAN network parameters. A positive regularizationRate adds the
+ * sparsity penalty of the accumulated batch (see applyKANRegularization).
  */
-export function updateKANWeights(network: KANNode[][], learningRate: number): void {
+export function updateKANWeights(
+  network: KANNode[][],
+  learningRate: number,
+  optimizer: Optimizer = Optimizers.SGD,
+  regularizationRate: number = 0
+): void {
+  if (regularizationRate > 0) {
+    applyKANRegularization(network, regularizationRate);
+  }
   for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
     const currentLayer = network[layerIdx];
     for (const node of currentLayer) {
       // Update edge parameters
       for (const edge of node.inputEdges) {
-        edge.updateParameters(learningRate);
+        edge.updateParameters(learningRate, optimizer);
+      }
+      node.updateParameters(learningRate, optimizer);
+    }
+  }
+}
+
+/** Weight of the L1 term of the sparsity penalty, as in pykan */
+export const REGULARIZATION_L1_WEIGHT = 1;
+/** Weight of the entropy term of the sparsity penalty, as in pykan */
+export const REGULARIZATION_ENTROPY_WEIGHT = 2;
+
+/**
+ * Sparsity penalty of the KAN paper for one node, given the mean absolute
+ * outputs a_e of its active input edges: l1Weight * sum_e a_e plus
+ * entropyWeight * S, where S = -sum_e p_e log p_e and p_e = a_e / sum_e a_e.
+ * If coefficients is given, it receives d(penalty)/d(a_e) for each edge.
+ */
+function nodeSparsityPenalty(
+  meanAbsOutputs: number[],
+  l1Weight: number,
+  entropyWeight: number,
+  coefficients?: number[]
+): number {
+  let total = 0;
+  for (const a of meanAbsOutputs) {
+    total += a;
+  }
+  let entropy = 0;
+  if (total > 0) {
+    for (const a of meanAbsOutputs) {
+      if (a > 0) {
+        entropy -= (a / total) * Math.log(a / total);
+      }
+    }
+  }
+  if (coefficients) {
+    for (let i = 0; i < meanAbsOutputs.length; i++) {
+      // dS/da_e = -(log p_e + S) / sum_e a_e
+      const p = Math.max(meanAbsOutputs[i] / Math.max(total, 1e-12), 1e-8);
+      coefficients[i] = l1Weight + (total > 0 ?
+          -entropyWeight * (Math.log(p) + entropy) / total : 0);
+    }
+  }
+  return l1Weight * total + entropyWeight * entropy;
+}
+
+/**
+ * Sparsity regularization of the KAN paper: regularizationRate times the sum
+ * over all nodes of the L1 norm of the mean absolute outputs of the node's
+ * input edges plus the entropy of their distribution. The statistics come
+ * from the gradients accumulated since the last update; the gradient of the
+ * penalty is added to the accumulated gradients. Returns the penalty.
+ *
+ * The mean absolute outputs are only known once the batch was
+ * backpropagated, so the gradient is approximate: each edge's input is
+ * taken as constant and only the edge's own parameters are penalized.
+ * computeKANLossAndGradient computes the exact gradient.
+ */
+export function applyKANRegularization(
+  network: KANNode[][],
+  regularizationRate: number,
+  l1Weight: number = REGULARIZATION_L1_WEIGHT,
+  entropyWeight: number = REGULARIZATION_ENTROPY_WEIGHT
+): number {
+  let penalty = 0;
+  forEachKANNode(network, true, node => {
+    const edges = node.inputEdges.filter(e => e.numAccumulatedGrads > 0);
+    if (edges.length === 0) {
+      return;
+    }
+    const coefficients: number[] = [];
+    penalty += nodeSparsityPenalty(edges.map(e => e.getMeanAbsOutput()),
+        l1Weight, entropyWeight, coefficients);
+    edges.forEach((edge, i) => {
+      edge.addAbsOutputGradient(regularizationRate * coefficients[i]);
+    });
+  });
+  return regularizationRate * penalty;
+}
+
+/**
+ * Sparsity penalty (see applyKANRegularization, without regularizationRate)
+ * of the network on the given inputs. If coefficients is given, it receives
+ * d(penalty)/d(mean |output|) of every penalized edge, by edge id.
+ */
+function computeSparsityPenalty(
+  network: KANNode[][],
+  inputs: number[][],
+  l1Weight: number,
+  entropyWeight: number,
+  coefficients?: {[edgeId: string]: number}
+): number {
+  const sums: {[edgeId: string]: number} = {};
+  for (const input of inputs) {
+    kanForwardProp(network, input, false);
+    forEachKANEdge(network, edge => {
+      if (edge.isActive && edge.destNode.isActive) {
+        sums[edge.id] = (sums[edge.id] || 0) + Math.abs(edge.lastOutput);
+      }
+    });
+  }
+  let penalty = 0;
+  forEachKANNode(network, true, node => {
+    const edges = node.inputEdges.filter(e => e.id in sums);
+    if (edges.length > 0) {
+      const nodeCoefficients: number[] = [];
+      penalty += nodeSparsityPenalty(
+          edges.map(e => sums[e.id] / inputs.length), l1Weight, entropyWeight,
+          nodeCoefficients);
+      if (coefficients) {
+        edges.forEach((e, i) => coefficients[e.id] = nodeCoefficients[i]);
+      }
+    }
+  });
+  return penalty;
+}
+
+/**
+ * Sparsity penalty (see applyKANRegularization) of the network on the given
+ * inputs, without touching the accumulated gradients
+ */
+export function computeKANRegularization(
+  network: KANNode[][],
+  inputs: number[][],
+  regularizationRate: number,
+  l1Weight: number = REGULARIZATION_L1_WEIGHT,
+  entropyWeight: number = REGULARIZATION_ENTROPY_WEIGHT
+): number {
+  if (regularizationRate === 0 || inputs.length === 0) {
+    return 0;
+  }
+  return regularizationRate *
+      computeSparsityPenalty(network, inputs, l1Weight, entropyWeight);
+}
+
+/** Edges and nodes deactivated by pruneKANNetwork */
+export interface PruningResult {
+  edges: KANEdge[];
+  nodes: KANNode[];
+}
+
+/**
+ * Importance of every edge on the given inputs: the mean |output| of the
+ * edge over a full forward pass (0 for inactive edges and for edges from or
+ * to an inactive node, which do not contribute to the outputs). Unlike
+ * KANEdge.getImportance this does not depend on the decayed histograms.
+ */
+export function computeKANImportance(
+  network: KANNode[][],
+  inputs: number[][]
+): {[edgeId: string]: number} {
+  const scores: {[edgeId: string]: number} = {};
+  forEachKANEdge(network, edge => {
+    scores[edge.id] = 0;
+  });
+  if (inputs.length === 0) {
+    return scores;
+  }
+  for (const input of inputs) {
+    kanForwardProp(network, input, false);
+    forEachKANEdge(network, edge => {
+      if (edge.isActive && edge.sourceNode.isActive &&
+          edge.destNode.isActive) {
+        scores[edge.id] += Math.abs(edge.lastOutput);
+      }
+    });
+  }
+  for (const edgeId in scores) {
+    scores[edgeId] /= inputs.length;
+  }
+  return scores;
+}
+
+/**
+ * Deactivate all edges whose importance is below threshold, and all hidden
+ * nodes whose strongest input edge or strongest output edge is below
+ * nodeThreshold, as in pykan. With inputs, the importance is computed by
+ * computeKANImportance on them; otherwise it is taken from the activation
+ * histograms (see KANEdge.getImportance), which only approximate the current
+ * network.
+ */
+export function pruneKANNetwork(
+  network: KANNode[][],
+  threshold: number = 0.01,
+  nodeThreshold: number = threshold,
+  inputs: number[][] = null
+): PruningResult {
+  const result: PruningResult = {edges: [], nodes: []};
+  let scores: {[edgeId: string]: number};
+  if (inputs != null) {
+    scores = computeKANImportance(network, inputs);
+  } else {
+    scores = {};
+    forEachKANEdge(network, edge => {
+      scores[edge.id] = edge.isActive ? edge.getImportance() : 0;
+    });
+  }
+  const maxScore = (edges: KANEdge[]) =>
+      edges.reduce((max, edge) => Math.max(max, scores[edge.id]), 0);
+  
+  for (let layerIdx = 1; layerIdx < network.length - 1; layerIdx++) {
+    for (const node of network[layerIdx]) {
+      if (node.isActive && (maxScore(node.inputEdges) < nodeThreshold ||
+          maxScore(node.outputEdges) < nodeThreshold)) {
+        node.isActive = false;
+        result.nodes.push(node);
+      }
+    }
+  }
+  forEachKANEdge(network, edge => {
+    if (edge.isActive && scores[edge.id] < threshold) {
+      edge.isActive = false;
+      result.edges.push(edge);
+    }
+  });
+  return result;
+}
+
+/**
+ * Remove the inactive hidden nodes and their edges from the network. Node
+ * and edge objects are reused, so trained parameters are kept. A hidden
+ * layer in which every node is inactive is left as it is, since removing it
+ * would disconnect the network.
+ */
+export function compactKANNetwork(network: KANNode[][]): KANNode[][] {
+  const compacted = network.map((layer, layerIdx) => {
+    const isHidden = layerIdx > 0 && layerIdx < network.length - 1;
+    const activeNodes = layer.filter(node => node.isActive);
+    return isHidden && activeNodes.length > 0 ? activeNodes : layer;
+  });
+  for (let layerIdx = 1; layerIdx < compacted.length; layerIdx++) {
+    const kept = compacted[layerIdx - 1];
+    for (const node of compacted[layerIdx]) {
+      node.inputEdges = node.inputEdges.filter(
+          edge => kept.indexOf(edge.sourceNode) !== -1);
+    }
+    for (const node of kept) {
+      node.outputEdges = node.outputEdges.filter(
+          edge => compacted[layerIdx].indexOf(edge.destNode) !== -1);
+    }
+  }
+  return compacted;
+}
+
+/**
+ * Grid extension: build a copy of the network in which every spline has
+ * gridSize + 1 control points and is a least-squares fit of the original
+ * spline, so a trained network can continue training on a finer grid.
+ * Node ids, structure and active flags are preserved.
+ */
+export function extendKANGrid(network: KANNode[][], gridSize: number): KANNode[][] {
+  const extended: KANNode[][] = network.map(layer => layer.map(node => {
+    const copy = new KANNode(node.id);
+    copy.isActive = node.isActive;
+    copy.copyTransform(node);
+    return copy;
+  }));
+  
+  const numLayers = network.length;
+  for (let layerIdx = 1; layerIdx < numLayers; layerIdx++) {
+    const fanIn = network[layerIdx - 1].length;
+    const fanOut = (layerIdx < numLayers - 1) ? network[layerIdx + 1].length : 1;
+    const prevIndex: {[id: string]: number} = {};
+    network[layerIdx - 1].forEach((node, i) => prevIndex[node.id] = i);
+    
+    network[layerIdx].forEach((node, nodeIdx) => {
+      const destNode = extended[layerIdx][nodeIdx];
+      for (const oldEdge of node.inputEdges) {
+        const sourceNode = extended[layerIdx - 1][prevIndex[oldEdge.sourceNode.id]];
+        const oldFunction = oldEdge.learnableFunction;
+        const edge = new KANEdge(
+          sourceNode, destNode, gridSize, oldFunction.degree, 0, fanIn, fanOut,
+          oldEdge.baseFunction, oldFunction.basis
+        );
+        edge.learnableFunction = oldFunction.refine(gridSize);
+        edge.baseWeight = oldEdge.baseWeight;
+        edge.splineWeight = oldEdge.splineWeight;
+        edge.symbolic = oldEdge.symbolic;
+        edge.isActive = oldEdge.isActive;
+        sourceNode.outputEdges.push(edge);
+        destNode.inputEdges.push(edge);
+      }
+    });
+  }
+  
+  return extended;
+}
+
+/**
+ * Get all trainable parameters of the network as one flat vector, edge by
+ * edge in layer order (see KANEdge.getParameters), followed by the scales
+ * and biases of the nodes (see KANNode.getParameters)
+ */
+export function getKANParameters(network: KANNode[][]): number[] {
+  let params: number[] = [];
+  forEachKANEdge(network, edge => {
+    params = params.concat(edge.getParameters());
+  });
+  forEachKANNode(network, true, node => {
+    params = params.concat(node.getParameters());
+  });
+  return params;
+}
+
+/** Set all trainable parameters of the network from a flat vector */
+export function setKANParameters(network: KANNode[][], params: number[]): void {
+  let offset = 0;
+  forEachKANEdge(network, edge => {
+    const size = edge.getParameters().length;
+    edge.setParameters(params.slice(offset, offset + size));
+    offset += size;
+  });
+  forEachKANNode(network, true, node => {
+    const size = node.getParameters().length;
+    node.setParameters(params.slice(offset, offset + size));
+    offset += size;
+  });
+}
+
+/**
+ * Full-batch mean loss over the given examples, plus the sparsity penalty
+ * (see computeKANRegularization) if regularizationRate is positive, and its
+ * exact gradient with respect to the parameter vector of getKANParameters.
+ * The penalty's derivatives with respect to the mean |output| of the edges
+ * are computed in a first pass and backpropagated through the whole network
+ * in the second. Parameters of inactive edges and nodes get a zero gradient.
+ */
+export function computeKANLossAndGradient(
+  network: KANNode[][],
+  inputs: number[][],
+  targets: (number | number[])[],
+  errorFunc: KANErrorFunction,
+  regularizationRate: number = 0,
+  recordHistogram: boolean = false
+): {loss: number, gradient: number[]} {
+  forEachKANEdge(network, edge => edge.clearGradients());
+  forEachKANNode(network, true, node => node.clearGradients());
+  
+  let penalty = 0;
+  if (regularizationRate > 0 && inputs.length > 0) {
+    const coefficients: {[edgeId: string]: number} = {};
+    penalty = regularizationRate * computeSparsityPenalty(network, inputs,
+        REGULARIZATION_L1_WEIGHT, REGULARIZATION_ENTROPY_WEIGHT, coefficients);
+    forEachKANEdge(network, edge => {
+      edge.absOutputDer = edge.id in coefficients ?
+          regularizationRate * coefficients[edge.id] : 0;
+    });
+  }
+  
+  let loss = 0;
+  for (let i = 0; i < inputs.length; i++) {
+    const outputs = kanForwardProp(network, inputs[i], recordHistogram);
+    loss += computeKANError(outputs, targets[i], errorFunc);
+    kanBackProp(network, targets[i], errorFunc);
+  }
+  loss = loss / Math.max(1, inputs.length) + penalty;
+  forEachKANEdge(network, edge => edge.absOutputDer = 0);
+  
+  // Each active edge and node accumulated exactly one gradient per example
+  let gradient: number[] = [];
+  forEachKANEdge(network, edge => {
+    gradient = gradient.concat(edge.getAveragedGradients());
+    edge.clearGradients();
+  });
+  forEachKANNode(network, true, node => {
+    gradient = gradient.concat(node.getAveragedGradients());
+    node.clearGradients();
+  });
+  
+  return {loss, gradient};
+}
+
+/** Result of comparing analytic and numeric gradients of a network */
+export interface GradientCheckResult {
+  /** Largest relative error over all checked parameters */
+  maxRelativeError: number;
+  /** Name of the parameter with the largest relative error */
+  worstParameter: string;
+  /** Number of checked parameters */
+  numParameters: number;
+}
+
+/**
+ * Gradient check: compares the gradients computed by kanBackProp with
+ * central finite differences of the mean loss over the given examples, for
+ * every trainable parameter of every active edge and node. Accumulated
+ * gradients are restored afterwards, so this can be run in the middle of
+ * training. The network should be in evaluation mode (see setKANTraining).
+ */
+export function kanGradientCheck(
+  network: KANNode[][],
+  inputs: number[][],
+  targets: (number | number[])[],
+  errorFunc: KANErrorFunction,
+  epsilon: number = 1e-5
+): GradientCheckResult {
+  const edges: KANEdge[] = [];
+  const nodes: KANNode[] = [];
+  for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
+    for (const node of network[layerIdx]) {
+      for (const edge of node.inputEdges) {
+        if (edge.isActive && node.isActive) {
+          edges.push(edge);
+        }
       }
+      if (node.isActive && node.hasAffine) {
+        nodes.push(node);
+      }
+    }
+  }
+  
+  // Save the accumulators and start from zero
+  const saved = edges.map(edge => ({
+    accGradients: edge.accGradients.slice(),
+    accBaseWeightGradient: edge.accBaseWeightGradient,
+    accSplineWeightGradient: edge.accSplineWeightGradient,
+    numAccumulatedGrads: edge.numAccumulatedGrads,
+    accAbsOutput: edge.accAbsOutput,
+    accAbsOutputGradients: edge.accAbsOutputGradients
+  }));
+  for (const edge of edges) {
+    edge.accGradients = new Float64Array(edge.accGradients.length);
+    edge.accBaseWeightGradient = 0;
+    edge.accSplineWeightGradient = 0;
+    edge.numAccumulatedGrads = 0;
+    edge.accAbsOutput = 0;
+    edge.accAbsOutputGradients = new Float64Array(0);
+  }
+  const savedNodes = nodes.map(node => ({
+    accScaleGradient: node.accScaleGradient,
+    accBiasGradient: node.accBiasGradient,
+    numAccumulatedGrads: node.numAccumulatedGrads
+  }));
+  for (const node of nodes) {
+    node.clearGradients();
+  }
+  
+  // Analytic gradients, summed over the examples
+  for (let i = 0; i < inputs.length; i++) {
+    kanForwardProp(network, inputs[i], false);
+    kanBackProp(network, targets[i], errorFunc);
+  }
+  
+  const meanLoss = (): number => {
+    let loss = 0;
+    for (let i = 0; i < inputs.length; i++) {
+      loss += computeKANError(kanForwardProp(network, inputs[i], false),
+          targets[i], errorFunc);
+    }
+    return loss / inputs.length;
+  };
+  
+  const result: GradientCheckResult = {
+    maxRelativeError: 0,
+    worstParameter: null,
+    numParameters: 0
+  };
+  const check = (name: string, analytic: number,
+      get: () => number, set: (value: number) => void) => {
+    const value = get();
+    set(value + epsilon);
+    const lossPlus = meanLoss();
+    set(value - epsilon);
+    const lossMinus = meanLoss();
+    set(value);
+    
+    const numeric = (lossPlus - lossMinus) / (2 * epsilon);
+    const error = Math.abs(analytic - numeric) /
+        Math.max(Math.abs(analytic), Math.abs(numeric), 1e-8);
+    result.numParameters++;
+    if (error > result.maxRelativeError || result.worstParameter == null) {
+      result.maxRelativeError = error;
+      result.worstParameter = name;
+    }
+  };
+  
+  const numExamples = Math.max(1, inputs.length);
+  for (const edge of edges) {
+    const fn = edge.learnableFunction;
+    for (let i = 0; i < fn.controlPoints.length; i++) {
+      check(`${edge.id} c${i}`, edge.accGradients[i] / numExamples,
+          () => fn.controlPoints[i], v => fn.controlPoints[i] = v);
+    }
+    if (edge.hasResidual()) {
+      check(`${edge.id} w_b`, edge.accBaseWeightGradient / numExamples,
+          () => edge.baseWeight, v => edge.baseWeight = v);
+      check(`${edge.id} w_s`, edge.accSplineWeightGradient / numExamples,
+          () => edge.splineWeight, v => edge.splineWeight = v);
     }
   }
+  for (const node of nodes) {
+    check(`${node.id} scale`, node.accScaleGradient / numExamples,
+        () => node.scale, v => node.scale = v);
+    check(`${node.id} bias`, node.accBiasGradient / numExamples,
+        () => node.bias, v => node.bias = v);
+  }
+  
+  // Restore the accumulators
+  edges.forEach((edge, i) => {
+    edge.accGradients = saved[i].accGradients;
+    edge.accBaseWeightGradient = saved[i].accBaseWeightGradient;
+    edge.accSplineWeightGradient = saved[i].accSplineWeightGradient;
+    edge.numAccumulatedGrads = saved[i].numAccumulatedGrads;
+    edge.accAbsOutput = saved[i].accAbsOutput;
+    edge.accAbsOutputGradients = saved[i].accAbsOutputGradients;
+  });
+  nodes.forEach((node, i) => {
+    node.accScaleGradient = savedNodes[i].accScaleGradient;
+    node.accBiasGradient = savedNodes[i].accBiasGradient;
+    node.numAccumulatedGrads = savedNodes[i].numAccumulatedGrads;
+  });
+  
+  return result;
 }
 
-/** Get output node from KAN network */
+/** Get the (first) output node from KAN network */
 export function getKANOutputNode(network: KANNode[][]): KANNode {
   return network[network.length - 1][0];
 }
 
+/** Get all output nodes from KAN network */
+export function getKANOutputNodes(network: KANNode[][]): KANNode[] {
+  return network[network.length - 1];
+}
+
 /** Reset all activation histograms in the network */
 export function resetKANHistograms(network: KANNode[][]): void {
   for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
@@ -876,6 +3197,91 @@ export function resetKANHistograms(network: KANNode[][]): void {
   }
 }
 
+/**
+ * Adapt the spline grids of all edges to their observed input distributions
+ */
+export function updateKANGrids(network: KANNode[][], gridEps: number = 0.02): void {
+  for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
+    const currentLayer = network[layerIdx];
+    for (const node of currentLayer) {
+      for (const edge of node.inputEdges) {
+        edge.updateGridFromSamples(gridEps);
+      }
+    }
+  }
+}
+
+/**
+ * Switch all nodes between training mode, in which forward passes update
+ * the running statistics of the normalized nodes, and evaluation mode
+ */
+export function setKANTraining(network: KANNode[][], training: boolean): void {
+  forEachKANNode(network, true, node => node.isTraining = training);
+}
+
+/**
+ * Update the running statistics of the normalized nodes with forward passes
+ * over the given inputs, leaving the network in evaluation mode
+ */
+export function updateKANStatistics(network: KANNode[][],
+    inputs: number[][]): void {
+  setKANTraining(network, true);
+  for (const input of inputs) {
+    kanForwardProp(network, input, false);
+  }
+  setKANTraining(network, false);
+}
+
+/** Whether any node of the network normalizes its sum */
+export function hasKANNormalization(network: KANNode[][]): boolean {
+  let result = false;
+  forEachKANNode(network, true, node => result = result || node.normalize);
+  return result;
+}
+
+/**
+ * Input range covering the inputs an edge has observed, widened on both
+ * sides by margin times their spread, or null if it observed none yet
+ */
+export function getFittedInputRange(edge: KANEdge,
+    margin: number = 0.1): [number, number] {
+  const [min, max] = edge.getObservedInputRange();
+  if (!(min <= max)) {
+    return null;
+  }
+  // Constant inputs still get an interval around them
+  const padding = Math.max(margin * (max - min), 1e-3);
+  return [min - padding, max + padding];
+}
+
+/**
+ * Fit the input range of every edge to its observed inputs (see
+ * getFittedInputRange). Edges without observations keep their range.
+ */
+export function fitKANInputRanges(network: KANNode[][],
+    margin: number = 0.1): void {
+  forEachKANEdge(network, edge => {
+    const range = getFittedInputRange(edge, margin);
+    if (range != null) {
+      edge.setInputRange(range);
+    }
+  });
+}
+
+/** Iterate over all edges in KAN network, layer by layer */
+export function forEachKANEdge(
+  network: KANNode[][],
+  accessor: (edge: KANEdge) => any
+): void {
+  for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
+    for (const node of network[layerIdx]) {
+      for (const edge of node.inputEdges) {
+        accessor(edge);
+      }
+    }
+  }
+}
+
 /** Iterate over all nodes in KAN network */
 export function forEachKANNode(
   network: KANNode[][],
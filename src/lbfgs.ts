@@ -0,0 +1,142 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+/**
+ * An objective for L-BFGS: evaluates the loss and its gradient at the given
+ * parameter vector. Evaluating may have side effects (e.g. writing the
+ * parameters into a network); after LBFGS.step the last evaluation is
+ * always at the returned parameters.
+ */
+export type Objective = (x: number[]) => {loss: number, gradient: number[]};
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Limited-memory BFGS with a backtracking (Armijo) line search, for
+ * full-batch training. Keeps the last historySize curvature pairs between
+ * steps, so consecutive calls to step() continue one optimization run.
+ */
+export class LBFGS {
+  private historySize: number;
+  private maxLineSearchSteps: number;
+  private sHistory: number[][] = [];
+  private yHistory: number[][] = [];
+  private rhoHistory: number[] = [];
+
+  constructor(historySize = 10, maxLineSearchSteps = 20) {
+    this.historySize = historySize;
+    this.maxLineSearchSteps = maxLineSearchSteps;
+  }
+
+  /** Forget the curvature history, e.g. after the parameters changed. */
+  reset() {
+    this.sHistory = [];
+    this.yHistory = [];
+    this.rhoHistory = [];
+  }
+
+  /**
+   * Performs one L-BFGS iteration starting at x. Returns the new parameters
+   * and their loss; if the line search fails to decrease the loss, the
+   * history is cleared and x is returned unchanged.
+   */
+  step(objective: Objective, x: number[]): {x: number[], loss: number} {
+    if (this.sHistory.length > 0 && this.sHistory[0].length !== x.length) {
+      // The number of parameters changed.
+      this.reset();
+    }
+
+    let {loss, gradient} = objective(x);
+    let direction = this.getDirection(gradient);
+    let slope = dot(gradient, direction);
+    if (!(slope < 0)) {
+      // Not a descent direction, fall back to steepest descent.
+      this.reset();
+      direction = this.getDirection(gradient);
+      slope = dot(gradient, direction);
+      if (!(slope < 0)) {
+        return {x, loss};  // Zero gradient: nothing to do.
+      }
+    }
+
+    // Backtracking line search with the Armijo condition.
+    const c1 = 1e-4;
+    let t = 1;
+    for (let i = 0; i < this.maxLineSearchSteps; i++) {
+      let newX = x.map((v, j) => v + t * direction[j]);
+      let result = objective(newX);
+      if (result.loss <= loss + c1 * t * slope) {
+        let s = direction.map(d => t * d);
+        let y = result.gradient.map((g, j) => g - gradient[j]);
+        let sy = dot(s, y);
+        // Only keep pairs that preserve positive definiteness.
+        if (sy > 1e-10) {
+          this.sHistory.push(s);
+          this.yHistory.push(y);
+          this.rhoHistory.push(1 / sy);
+          if (this.sHistory.length > this.historySize) {
+            this.sHistory.shift();
+            this.yHistory.shift();
+            this.rhoHistory.shift();
+          }
+        }
+        return {x: newX, loss: result.loss};
+      }
+      t *= 0.5;
+    }
+
+    // No sufficient decrease: restart from steepest descent next time.
+    this.reset();
+    objective(x);
+    return {x, loss};
+  }
+
+  /** Two-loop recursion: approximates -H^{-1} * gradient. */
+  private getDirection(gradient: number[]): number[] {
+    let q = gradient.slice();
+    let k = this.sHistory.length;
+    let alphas: number[] = new Array(k);
+    for (let i = k - 1; i >= 0; i--) {
+      alphas[i] = this.rhoHistory[i] * dot(this.sHistory[i], q);
+      for (let j = 0; j < q.length; j++) {
+        q[j] -= alphas[i] * this.yHistory[i][j];
+      }
+    }
+
+    // Initial Hessian approximation: a scaled identity.
+    let gamma: number;
+    if (k > 0) {
+      let y = this.yHistory[k - 1];
+      gamma = dot(this.sHistory[k - 1], y) / dot(y, y);
+    } else {
+      gamma = 1 / Math.max(1, Math.sqrt(dot(gradient, gradient)));
+    }
+    let r = q.map(v => gamma * v);
+
+    for (let i = 0; i < k; i++) {
+      let beta = this.rhoHistory[i] * dot(this.yHistory[i], r);
+      for (let j = 0; j < r.length; j++) {
+        r[j] += this.sHistory[i][j] * (alphas[i] - beta);
+      }
+    }
+    return r.map(v => -v);
+  }
+}
@@ -22,7 +22,8 @@ type DataPoint = {
 
 /**
  * A multi-series line chart that allows you to append new data points
- * as data becomes available.
+ * as data becomes available. Lines share one y scale, except for the
+ * independent lines (drawn dashed) which are each scaled to their own range.
  */
 export class AppendingLineChart {
   private numLines: number;
@@ -32,12 +33,18 @@ export class AppendingLineChart {
   private yScale;
   private paths;
   private lineColors: string[];
+  private independentLines: number[];
+  private yScales;
 
   private minY = Number.MAX_VALUE;
   private maxY = Number.MIN_VALUE;
+  private lineMinY: number[];
+  private lineMaxY: number[];
 
-  constructor(container, lineColors: string[]) {
+  constructor(container, lineColors: string[],
+      independentLines: number[] = []) {
     this.lineColors = lineColors;
+    this.independentLines = independentLines;
     this.numLines = lineColors.length;
     let node = container.node() as HTMLElement;
     let totalWidth = node.offsetWidth;
@@ -53,6 +60,15 @@ export class AppendingLineChart {
     this.yScale = d3.scale.linear()
       .domain([0, 0])
       .range([height, 0]);
+    this.yScales = new Array(this.numLines);
+    this.lineMinY = new Array(this.numLines);
+    this.lineMaxY = new Array(this.numLines);
+    for (let i = 0; i < this.numLines; i++) {
+      this.yScales[i] = this.isIndependent(i) ?
+          d3.scale.linear().domain([0, 0]).range([height, 0]) : this.yScale;
+      this.lineMinY[i] = Number.MAX_VALUE;
+      this.lineMaxY[i] = -Number.MAX_VALUE;
+    }
 
     this.svg = container.append("svg")
       .attr("width", width + margin.left + margin.right)
@@ -67,7 +83,8 @@ export class AppendingLineChart {
         .style({
           "fill": "none",
           "stroke": lineColors[i],
-          "stroke-width": "1.5px"
+          "stroke-width": "1.5px",
+          "stroke-dasharray": this.isIndependent(i) ? "3,2" : null
         });
     }
   }
@@ -77,15 +94,33 @@ export class AppendingLineChart {
     this.redraw();
     this.minY = Number.MAX_VALUE;
     this.maxY = Number.MIN_VALUE;
+    for (let i = 0; i < this.numLines; i++) {
+      this.lineMinY[i] = Number.MAX_VALUE;
+      this.lineMaxY[i] = -Number.MAX_VALUE;
+    }
+  }
+
+  /** Show or hide one of the lines. */
+  setLineVisible(lineIndex: number, visible: boolean) {
+    this.paths[lineIndex].style("display", visible ? null : "none");
+  }
+
+  private isIndependent(lineIndex: number): boolean {
+    return this.independentLines.indexOf(lineIndex) !== -1;
   }
 
   addDataPoint(dataPoint: number[]) {
     if (dataPoint.length !== this.numLines) {
       throw Error("Length of dataPoint must equal number of lines");
     }
-    dataPoint.forEach(y => {
-      this.minY = Math.min(this.minY, y);
-      this.maxY = Math.max(this.maxY, y);
+    dataPoint.forEach((y, i) => {
+      if (this.isIndependent(i)) {
+        this.lineMinY[i] = Math.min(this.lineMinY[i], y);
+        this.lineMaxY[i] = Math.max(this.lineMaxY[i], y);
+      } else {
+        this.minY = Math.min(this.minY, y);
+        this.maxY = Math.max(this.maxY, y);
+      }
     });
 
     this.data.push({x: this.data.length + 1, y: dataPoint});
@@ -96,11 +131,17 @@ export class AppendingLineChart {
     // Adjust the x and y domain.
     this.xScale.domain([1, this.data.length]);
     this.yScale.domain([this.minY, this.maxY]);
+    this.independentLines.forEach(i => {
+      // Leave a flat line in the middle of the chart while it is constant.
+      let min = this.lineMinY[i];
+      let max = this.lineMaxY[i];
+      this.yScales[i].domain(min < max ? [min, max] : [min - 1, max + 1]);
+    });
     // Adjust all the <path> elements (lines).
     let getPathMap = (lineIndex: number) => {
       return d3.svg.line<{x: number, y:number}>()
       .x(d => this.xScale(d.x))
-      .y(d => this.yScale(d.y[lineIndex]));
+      .y(d => this.yScales[lineIndex](d.y[lineIndex]));
     };
     for (let i = 0; i < this.numLines; i++) {
       this.paths[i].datum(this.data).attr("d", getPathMap(i));
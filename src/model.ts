@@ -0,0 +1,149 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {KANNode} from "./kan";
+import {EdgeSnapshot, NetworkSnapshot, takeSnapshot} from "./snapshot";
+
+/**
+ * JSON file format of trained models. A model file holds the network
+ * snapshot (knots, control points, degrees and active flags of every edge,
+ * the scale, bias and statistics of the nodes) and the State that produced
+ * it, serialized as in the URL hash, so that the data and the controls can
+ * be restored along with the network.
+ */
+
+/** Marks a JSON file as a model of this playground */
+export const MODEL_FORMAT = "kanlab-model";
+/** Version of the format; increased on changes older readers cannot load */
+export const MODEL_FORMAT_VERSION = 2;
+/**
+ * Oldest version that can still be loaded. Version 1 predates the scale, bias
+ * and normalization of the nodes; its nodes load as plain sums.
+ */
+export const MIN_MODEL_FORMAT_VERSION = 1;
+
+export interface ModelFile {
+  format: string;
+  version: number;
+  /** The State of the playground, as serialized in the URL hash */
+  state: string;
+  /** Number of nodes per layer, the inputs first */
+  shape: number[];
+  /** Ids of the input nodes */
+  inputIds: string[];
+  network: NetworkSnapshot;
+}
+
+/**
+ * Serializes the network with the state that produced it. The activation
+ * statistics are left out; they are collected again once the model is
+ * loaded.
+ */
+export function saveModel(network: KANNode[][], state: string): string {
+  const model: ModelFile = {
+    format: MODEL_FORMAT,
+    version: MODEL_FORMAT_VERSION,
+    state,
+    shape: network.map(layer => layer.length),
+    inputIds: network[0].map(node => node.id),
+    network: takeSnapshot(network, false)
+  };
+  return JSON.stringify(model);
+}
+
+function isFiniteNumber(value: any): boolean {
+  return typeof value === "number" && isFinite(value);
+}
+
+/**
+ * Checks that the grid and the parameters of an edge describe a valid
+ * function: a finite input range with min < max, finite control points and,
+ * for B-splines, a finite non-decreasing knot vector with
+ * controlPoints + degree + 1 knots (other bases have no knots).
+ */
+function checkEdge(edge: EdgeSnapshot): void {
+  const fail = (problem: string) => {
+    throw new Error(`Edge ${edge.id} of the model ${problem}`);
+  };
+  const range = edge.inputRange;
+  if (!(range instanceof Array) || range.length !== 2 ||
+      !isFiniteNumber(range[0]) || !isFiniteNumber(range[1]) ||
+      !(range[0] < range[1])) {
+    fail("has an invalid input range");
+  }
+  if (!(edge.controlPoints instanceof Array) ||
+      !edge.controlPoints.every(isFiniteNumber)) {
+    fail("has control points that are not finite numbers");
+  }
+  if (!isFiniteNumber(edge.degree) || edge.degree < 0 ||
+      edge.degree % 1 !== 0) {
+    fail("has an invalid degree");
+  }
+  const knots = edge.knotVector;
+  const numKnots = edge.basis === "BSPLINE" ?
+      edge.controlPoints.length + edge.degree + 1 : 0;
+  if (!(knots instanceof Array) || knots.length !== numKnots) {
+    fail(`has ${knots instanceof Array ? knots.length : "no"} knots, ` +
+        `expected ${numKnots}`);
+  }
+  if (!knots.every(isFiniteNumber) ||
+      knots.some((knot, i) => i > 0 && knot < knots[i - 1])) {
+    fail("has knots that are not finite and non-decreasing");
+  }
+  if (!isFiniteNumber(edge.baseWeight) || !isFiniteNumber(edge.splineWeight)) {
+    fail("has weights that are not finite numbers");
+  }
+}
+
+/**
+ * Parses a model file and checks that it is consistent, including the grid
+ * and parameters of every edge; the connections are checked when the
+ * network is rebuilt with restoreNetwork.
+ */
+export function parseModel(text: string): ModelFile {
+  let model: ModelFile;
+  try {
+    model = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The file is not valid JSON");
+  }
+  if (model == null || model.format !== MODEL_FORMAT) {
+    throw new Error("The file is not a KAN model");
+  }
+  if (typeof model.version !== "number" ||
+      model.version < MIN_MODEL_FORMAT_VERSION ||
+      model.version > MODEL_FORMAT_VERSION) {
+    throw new Error(`Unsupported model version ${model.version}, ` +
+        `expected ${MIN_MODEL_FORMAT_VERSION} to ${MODEL_FORMAT_VERSION}`);
+  }
+  if (typeof model.state !== "string" || model.network == null ||
+      !(model.network.layers instanceof Array) ||
+      !(model.network.edges instanceof Array)) {
+    throw new Error("The model is missing its state or network");
+  }
+  const layers = model.network.layers;
+  if (!(model.shape instanceof Array) ||
+      model.shape.length !== layers.length ||
+      model.shape.some((size, i) => size !== layers[i].length)) {
+    throw new Error("The shape of the model does not match its network");
+  }
+  if (!(model.inputIds instanceof Array) ||
+      model.inputIds.join(",") !==
+          layers[0].map(node => node.id).join(",")) {
+    throw new Error("The inputs of the model do not match its network");
+  }
+  model.network.edges.forEach(checkEdge);
+  return model;
+}
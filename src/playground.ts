@@ -14,17 +14,57 @@ limitations under the License.
 ==============================================================================*/
 
 import * as kan from "./kan";
-import {HeatMap, reduceMatrix} from "./heatmap";
+import {HeatMap, reduceMatrix, CLASS_COLORS} from "./heatmap";
 import {SplineChart} from "./splinechart";
+import {
+  TrainingConfig,
+  TrainingData,
+  TrainingResponse,
+  TrainingSnapshot,
+  connectTrainingSession,
+  toTrainingConfig
+} from "./training";
+import {
+  INPUTS,
+  buildNetwork,
+  computeLoss,
+  generateExamples,
+  getDataset,
+  getInput,
+  getInputIds,
+  getLossFunction,
+  getNetworkShape as getNetworkShapeFor,
+  getNumControlPoints,
+  getNumOutputs as getNumOutputsFor,
+  getTrainerOptions
+} from "./trainer";
+import {parseModel, saveModel} from "./model";
+import {CodeLanguage, generateCode} from "./codegen";
+import {PykanState, exportPykan, importPykan, isPykanState} from "./pykan";
+import {
+  applySnapshot,
+  restoreNetwork,
+  takeSnapshot
+} from "./snapshot";
+import * as symbolic from "./symbolic";
+import * as formula from "./formula";
 import {
   State,
   datasets,
   regDatasets,
+  multiclassDatasets,
   problems,
+  baseFunctions,
+  bases,
+  extrapolations,
+  optimizers,
+  errorFunctions,
+  learningRateSchedules,
+  trainingModes,
   getKeyFromValue,
   Problem
 } from "./state";
-import {Example2D, shuffle} from "./dataset";
+import {Example2D} from "./dataset";
 import {AppendingLineChart} from "./linechart";
 import {NetworkLayoutManager} from "./layout";
 import * as d3 from 'd3';
@@ -48,13 +88,14 @@ function scrollTween(offset) {
 }
 
 const RECT_SIZE = 30;
-const NUM_SAMPLES_CLASSIFY = 500;
-const NUM_SAMPLES_REGRESS = 1200;
 const DENSITY = 100;
 const SPLINE_CHART_SIZE_X = 30;
 const SPLINE_CHART_SIZE_Y = 30;
 const NODE_SPACING = 25;
-const HEATMAP_UPDATE_THROTTLE_MS = 32; // Throttle heatmap updates during drag
+// Session storage key of a model to load after the page reloads
+const PENDING_MODEL_KEY = "kanlab-pending-model";
+// Values of the sparsity regularization slider
+const REGULARIZATION_RATES = [0, 0.0001, 0.0003, 0.001, 0.003, 0.01, 0.03, 0.1];
 
 // Helper: populate numControlPoints options based on degree
 function updateNumControlPointsOptionsForDegree(degreeVal: number, currentNumControlPoints?: number) {
@@ -89,44 +130,48 @@ function updateNumControlPointsOptionsForDegree(degreeVal: number, currentNumCon
 }
 
 enum HoverType {
-  WEIGHT
+  WEIGHT, NODE
 }
 
-interface InputFeature {
-  f: (x: number, y: number) => number;
-  label?: string;
-}
-
-let INPUTS: {[name: string]: InputFeature} = {
-  "x": {f: (x, y) => x, label: "X_1"},
-  "y": {f: (x, y) => y, label: "X_2"},
-  "xSquared": {f: (x, y) => x * x, label: "X_1^2"},
-  "ySquared": {f: (x, y) => y * y,  label: "X_2^2"},
-  "xTimesY": {f: (x, y) => x * y, label: "X_1X_2"},
-  "sinX": {f: (x, y) => Math.sin(x), label: "sin(X_1)"},
-  "sinY": {f: (x, y) => Math.sin(y), label: "sin(X_2)"},
-};
-
 let HIDABLE_CONTROLS = [
   ["Show test data", "showTestData"],
+  ["Plot learning rate", "showLearningRate"],
   ["Discretize output", "discretize"],
   ["Play button", "playButton"],
   ["Step button", "stepButton"],
   ["Reset button", "resetButton"],
   ["Learning rate", "learningRate"],
+  ["Optimizer", "optimizer"],
+  ["Loss", "errorFunction"],
+  ["Learning rate schedule", "learningRateSchedule"],
+  ["Schedule settings", "scheduleParameters"],
+  ["Learning rate warmup", "warmupEpochs"],
+  ["Training mode", "trainingMode"],
   ["Problem type", "problem"],
   ["Which dataset", "dataset"],
   ["Ratio train data", "percTrainData"],
   ["Noise level", "noise"],
   ["Batch size", "batchSize"],
+  ["Sparsity regularization", "regularizationRate"],
+  ["Pruning", "pruneThreshold"],
+  ["Symbolic snapping", "symbolicThreshold"],
+  ["Formula", "formula"],
+  ["Save/load model", "model"],
+  ["Code export", "codeExport"],
   ["# of hidden layers", "numHiddenLayers"],
   ["Control points", "numControlPoints"],
   ["Spline degree", "degree"],
   ["Init noise", "initNoise"], 
+  ["Grid update", "gridUpdateInterval"],
+  ["Fit input ranges", "fitRanges"],
+  ["Grid extension", "gridExtensionSchedule"],
+  ["Base function", "baseFunction"],
+  ["Basis", "basis"],
+  ["Extrapolation", "extrapolation"],
+  ["Node output", "nodeOutput"],
 ];
 
 class Player {
-  private timerIndex = 0;
   private isPlaying = false;
   private callback: (isPlaying: boolean) => void = null;
 
@@ -148,17 +193,20 @@ class Player {
     this.callback = callback;
   }
 
+  isRunning(): boolean {
+    return this.isPlaying;
+  }
+
   play() {
     this.pause();
     this.isPlaying = true;
     if (this.callback) {
       this.callback(this.isPlaying);
     }
-    this.start(this.timerIndex);
+    this.start();
   }
 
   pause() {
-    this.timerIndex++;
     this.isPlaying = false;
     if (this.callback) {
       this.callback(this.isPlaying);
@@ -172,14 +220,10 @@ class Player {
     }
   }
 
-  private start(localTimerIndex: number) {
-    d3.timer(() => {
-      if (localTimerIndex < this.timerIndex) {
-        return true;  // Done.
-      }
-      oneStep();
-      return false;  // Not done.
-    }, 0);
+  private start() {
+    // The epochs run in the training session; snapshotReceived asks for the
+    // next one while playing.
+    requestStep();
   }
 }
 
@@ -200,6 +244,8 @@ state.getHiddenProps().forEach(prop => {
 });
 
 let boundary: {[id: string]: number[][]} = {};
+/** Class probabilities on the grid for multi-class problems, [x][y][class] */
+let classBoundary: number[][][] = null;
 let selectedNodeId: string = null;
 // Plot the heatmap.
 let xDomain: [number, number] = [-6, 6];
@@ -226,9 +272,25 @@ let testData: Example2D[] = [];
 let network: kan.KANNode[][] = null;
 let lossTrain = 0;
 let lossTest = 0;
+let regularization = 0;
 let player = new Player();
+/** Connection to the training session, which runs in a Web Worker */
+let trainer = connectTrainingSession("worker.js");
+/** Version of the network, increased whenever it is changed on the page */
+let networkVersion = 0;
+/** Whether a step or evaluation was requested and its snapshot not received */
+let awaitingSnapshot = false;
+/** Requests to send when the awaited snapshot arrives */
+let stepQueued = false;
+let evaluationQueued = false;
+/** Whether the next snapshot starts the loss chart of a new network */
+let chartNeedsFirstPoint = false;
+/** Learning rate of the last epoch, after the schedule */
+let effectiveLearningRate = 0;
+/** Index of the learning rate series in the line chart */
+const LEARNING_RATE_LINE = 3;
 let lineChart = new AppendingLineChart(d3.select("#linechart"),
-    ["#777", "black"]);
+    ["#777", "black", "#f59322", "#0877bd"], [LEARNING_RATE_LINE]);
 let edgeSplineCharts: {[edgeId: string]: SplineChart} = {};
 // Hover card spline chart
 let hoverCardSplineChart: SplineChart = null;
@@ -247,7 +309,6 @@ let updateWeightsDebounceTimer: number | null = null;
 // Flag to track if an update is pending
 let updateWeightsPending: boolean = false;
 // Track last time heatmap was updated during control point drag
-let lastHeatmapUpdateTime: number = 0;
 
 function makeGUI() {
   d3.select("#reset-button").on("click", () => {
@@ -272,7 +333,7 @@ function makeGUI() {
     if (iter === 0) {
       simulationStarted();
     }
-    oneStep();
+    requestStep();
   });
 
   d3.select("#data-regen-button").on("click", () => {
@@ -318,6 +379,27 @@ function makeGUI() {
   d3.select(`canvas[data-regDataset=${regDatasetKey}]`)
     .classed("selected", true);
 
+  let multiclassDataThumbnails =
+      d3.selectAll("canvas[data-multiclassDataset]");
+  multiclassDataThumbnails.on("click", function() {
+    let newDataset = multiclassDatasets[this.dataset.multiclassdataset];
+    if (newDataset === state.multiclassDataset) {
+      return; // No-op.
+    }
+    state.multiclassDataset =  newDataset;
+    multiclassDataThumbnails.classed("selected", false);
+    d3.select(this).classed("selected", true);
+    generateData();
+    parametersChanged = true;
+    reset();
+  });
+
+  let multiclassDatasetKey =
+      getKeyFromValue(multiclassDatasets, state.multiclassDataset);
+  // Select the dataset according to the current state.
+  d3.select(`canvas[data-multiclassDataset=${multiclassDatasetKey}]`)
+    .classed("selected", true);
+
   d3.select("#add-layers").on("click", () => {
     if (state.numHiddenLayers >= 5) {
       return;
@@ -395,6 +477,30 @@ function makeGUI() {
   batchSize.property("value", state.batchSize);
   d3.select("label[for='batchSize'] .value").text(state.batchSize);
 
+  let regularizationRate = d3.select("#regularizationRate").on("input",
+      function() {
+    state.regularizationRate = REGULARIZATION_RATES[+this.value];
+    d3.select("label[for='regularizationRate'] .value")
+        .text(state.regularizationRate);
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    // reset(); not needed, the penalty can be switched on during training
+  });
+  // Snap the slider to the closest available value.
+  let closestRateIndex = 0;
+  REGULARIZATION_RATES.forEach((rate, i) => {
+    if (Math.abs(rate - state.regularizationRate) <
+        Math.abs(REGULARIZATION_RATES[closestRateIndex] -
+            state.regularizationRate)) {
+      closestRateIndex = i;
+    }
+  });
+  regularizationRate.property("max", REGULARIZATION_RATES.length - 1);
+  regularizationRate.property("value", closestRateIndex);
+  d3.select("label[for='regularizationRate'] .value")
+      .text(state.regularizationRate);
+
   let problemDropdown = d3.select("#problem").on("change", function() {
     state.problem = problems[this.value];
     state.serialize();
@@ -416,13 +522,95 @@ function makeGUI() {
   });
   learningRate.property("value", state.learningRate);
 
+  let learningRateScheduleDropdown = d3.select("#learningRateSchedule").on(
+      "change", function() {
+    state.learningRateSchedule = learningRateSchedules[this.value];
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    // reset(); not needed, the schedule starts over at the current epoch
+    trainer.post({type: "resetSchedule"});
+    updateScheduleParameters();
+  });
+  learningRateScheduleDropdown.property("value",
+      getKeyFromValue(learningRateSchedules, state.learningRateSchedule));
+  updateScheduleParameters();
+
+  // The settings of the schedules and the warmup apply from the next epoch.
+  ["stepDecayEpochs", "exponentialDecay", "cosinePeriod", "plateauPatience",
+      "warmupEpochs"].forEach(name => {
+    let select = d3.select(`#${name}`).on("change", function() {
+      state[name] = +this.value;
+      state.serialize();
+      userHasInteracted();
+      parametersChanged = true;
+    });
+    if (select.select(`option[value="${state[name]}"]`).empty()) {
+      // A custom value from the URL.
+      select.append("option")
+        .attr("value", state[name])
+        .text(state[name]);
+    }
+    select.property("value", state[name]);
+  });
+
+  let showLearningRate = d3.select("#show-learning-rate").on("change",
+      function() {
+    state.showLearningRate = this.checked;
+    state.serialize();
+    userHasInteracted();
+    lineChart.setLineVisible(LEARNING_RATE_LINE, state.showLearningRate);
+  });
+  // Check/uncheck the checkbox according to the current state.
+  showLearningRate.property("checked", state.showLearningRate);
+  lineChart.setLineVisible(LEARNING_RATE_LINE, state.showLearningRate);
+
+  let optimizerDropdown = d3.select("#optimizer").on("change", function() {
+    state.optimizer = optimizers[this.value];
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    // reset(); not needed, the optimizer buffers start fresh
+  });
+  optimizerDropdown.property("value",
+      getKeyFromValue(optimizers, state.optimizer));
+
+  let errorFunctionDropdown = d3.select("#errorFunction").on("change",
+      function() {
+    state.errorFunction = errorFunctions[this.value];
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    // reset(); not needed, the losses are recomputed with the new function
+    requestEvaluation();
+  });
+  errorFunctionDropdown.property("value",
+      getKeyFromValue(errorFunctions, state.errorFunction));
+
+  let trainingModeDropdown = d3.select("#trainingMode").on("change",
+      function() {
+    state.trainingMode = trainingModes[this.value];
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    // reset(); not needed, training continues from the current network
+  });
+  trainingModeDropdown.property("value",
+      getKeyFromValue(trainingModes, state.trainingMode));
+
   // numControlPoints UI
   let numControlPointsSel = d3.select("#numControlPoints").on("change", function() {
     state.numControlPoints = +this.value;
     state.serialize();
     userHasInteracted();
     parametersChanged = true;
-    reset();
+    if (iter > 0) {
+      // Keep the trained network and refit its splines to the new grid.
+      extendGrid(Math.max(1, state.numControlPoints - 1));
+      networkEdited();
+    } else {
+      reset();
+    }
   });
   numControlPointsSel.property("value", state.numControlPoints);
 
@@ -460,6 +648,179 @@ function makeGUI() {
   // Ensure the select reflects current state (stringify numbers)
   initNoise.property("value", String(state.initNoise));
 
+  let baseFunctionDropdown = d3.select("#baseFunction").on("change", function() {
+    state.baseFunction = baseFunctions[this.value];
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    reset();
+  });
+  baseFunctionDropdown.property("value",
+      getKeyFromValue(baseFunctions, state.baseFunction));
+
+  let basisDropdown = d3.select("#basis").on("change", function() {
+    state.basis = bases[this.value];
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    reset();
+  });
+  basisDropdown.property("value", getKeyFromValue(bases, state.basis));
+
+  let extrapolationDropdown = d3.select("#extrapolation").on("change",
+      function() {
+    state.extrapolation = extrapolations[this.value];
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    // Applies to the current network without resetting it.
+    kan.forEachKANEdge(network, edge =>
+        edge.learnableFunction.setExtrapolation(state.extrapolation));
+    networkEdited();
+  });
+  extrapolationDropdown.property("value",
+      getKeyFromValue(extrapolations, state.extrapolation));
+
+  // One dropdown for the two node options, e.g. "normalized-affine"
+  let nodeOutputDropdown = d3.select("#nodeOutput").on("change", function() {
+    state.normalization = this.value.indexOf("normalized") === 0;
+    state.nodeAffine = /affine$/.test(this.value);
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    reset();
+  });
+  nodeOutputDropdown.property("value",
+      (state.normalization ? "normalized" : "sum") +
+      (state.nodeAffine ? "-affine" : ""));
+
+  let gridUpdateInterval = d3.select("#gridUpdateInterval").on("change", function() {
+    state.gridUpdateInterval = +this.value;
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    // reset(); not needed, the grid adapts during training
+  });
+  gridUpdateInterval.property("value", state.gridUpdateInterval);
+
+  let gridExtensionSchedule = d3.select("#gridExtensionSchedule")
+      .on("change", function() {
+    state.gridExtensionSchedule = this.value === "" ? [] :
+        this.value.split(",").map(Number);
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+  });
+  let scheduleKey = state.gridExtensionSchedule.join(",");
+  if (gridExtensionSchedule.select(`option[value="${scheduleKey}"]`).empty()) {
+    // A custom schedule from the URL.
+    gridExtensionSchedule.append("option")
+      .attr("value", scheduleKey)
+      .text(state.gridExtensionSchedule.join(", "));
+  }
+  gridExtensionSchedule.property("value", scheduleKey);
+
+  d3.select("#grid-update-button").on("click", () => {
+    userHasInteracted();
+    updateGrids();
+  });
+
+  d3.select("#fit-ranges-button").on("click", () => {
+    userHasInteracted();
+    kan.fitKANInputRanges(network);
+    inputRangesChanged();
+  });
+
+  let pruneThreshold = d3.select("#pruneThreshold").on("change", function() {
+    state.pruneThreshold = +this.value;
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    // reset(); not needed, the threshold is used by the next prune
+  });
+  pruneThreshold.property("value", state.pruneThreshold);
+
+  d3.select("#prune-button").on("click", () => {
+    userHasInteracted();
+    pruneNetwork();
+  });
+
+  d3.select("#compact-button").on("click", () => {
+    userHasInteracted();
+    compactNetwork();
+  });
+
+  let symbolicThreshold = d3.select("#symbolicThreshold").on("change",
+      function() {
+    state.symbolicThreshold = +this.value;
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    // reset(); not needed, the threshold is used by the next auto symbolic
+  });
+  symbolicThreshold.property("value", state.symbolicThreshold);
+
+  d3.select("#formula-button").on("click", () => {
+    userHasInteracted();
+    showFormula();
+  });
+
+  d3.selectAll(".formula-copy").on("click", function() {
+    let format = this.getAttribute("data-format");
+    copyToClipboard(d3.select(`#formula-${format}`).text());
+  });
+
+  d3.select("#auto-symbolic-button").on("click", () => {
+    userHasInteracted();
+    let fixed = symbolic.autoSymbolic(network, state.symbolicThreshold);
+    symbolicChanged(fixed);
+  });
+
+  d3.select("#download-model-button").on("click", () => {
+    userHasInteracted();
+    downloadModel();
+  });
+
+  d3.select("#code-button").on("click", () => {
+    userHasInteracted();
+    downloadCode(d3.select("#code-language").property("value"));
+  });
+
+  d3.select("#export-pykan-button").on("click", () => {
+    userHasInteracted();
+    downloadPykan();
+  });
+
+  let modelInput = d3.select("#load-model-input").on("change", function() {
+    if (this.files.length > 0) {
+      readModelFile(this.files[0]);
+    }
+    // Allow loading the same file again.
+    this.value = "";
+  });
+  d3.select("#load-model-button").on("click", () => {
+    userHasInteracted();
+    (modelInput.node() as HTMLInputElement).click();
+  });
+
+  // Models can also be dropped on the network.
+  let mainPart = d3.select("#main-part");
+  mainPart.on("dragover", () => {
+    (d3.event as DragEvent).preventDefault();
+    mainPart.classed("drop-target", true);
+  }).on("dragleave", () => {
+    mainPart.classed("drop-target", false);
+  }).on("drop", () => {
+    const dropEvent = d3.event as DragEvent;
+    dropEvent.preventDefault();
+    mainPart.classed("drop-target", false);
+    let files = dropEvent.dataTransfer.files;
+    if (files.length > 0) {
+      userHasInteracted();
+      readModelFile(files[0]);
+    }
+  });
+
   // Add scale to the gradient color map.
   let x = d3.scale.linear().domain([-1, 1]).range([0, 144]);
   let xAxis = d3.svg.axis()
@@ -643,22 +1004,28 @@ function drawNode(cx: number, cy: number, nodeId: string, isInput: boolean,
       position: "absolute",
       left: `${x + 3}px`,
       top: `${y + 3}px`,
-      display: isOutput ? "none" : null
+      // The main heatmap shows a single output; several outputs get their
+      // own canvases.
+      display: isOutput && network[network.length - 1].length === 1 ?
+          "none" : null
     })
     .on("mouseenter", function() {
       selectedNodeId = nodeId;
       div.classed("hovered", true);
       nodeGroup.classed("hovered", true);
-      updateDecisionBoundary(network, false);
       heatMap.updateBackground(boundary[nodeId], state.discretize);
+      if (node && (node.hasAffine || node.normalize)) {
+        updateHoverCard(HoverType.NODE, node, [cx, cy]);
+      }
     })
     .on("mouseleave", function() {
       selectedNodeId = null;
       div.classed("hovered", false);
       nodeGroup.classed("hovered", false);
-      updateDecisionBoundary(network, false);
-      heatMap.updateBackground(boundary[kan.getKANOutputNode(network).id],
-          state.discretize);
+      updateMainHeatmap();
+      if (node && (node.hasAffine || node.normalize)) {
+        updateHoverCard(null);
+      }
     });
   
   // Add click handlers
@@ -689,23 +1056,13 @@ function drawNode(cx: number, cy: number, nodeId: string, isInput: boolean,
       
       // Repopulate histograms with current network state
       trainData.forEach((point) => {
-        let input = constructInput(point.x, point.y);
+        let input = getInput(state, point.x, point.y);
         kan.kanForwardProp(network, input, true);
       });
       
       // Update visualizations (forced because this is a user interaction)
       updateWeightsUI(network, d3.select("g.core"), true);
-      updateDecisionBoundary(network, false);
-      
-      let selectedId = selectedNodeId != null ?
-          selectedNodeId : kan.getKANOutputNode(network).id;
-      heatMap.updateBackground(boundary[selectedId], state.discretize);
-      
-      d3.select("#network").selectAll("div.canvas")
-          .each(function(data: {heatmap: HeatMap, id: string}) {
-        data.heatmap.updateBackground(reduceMatrix(boundary[data.id], 10),
-            state.discretize);
-      });
+      networkEdited();
     });
     div.style("cursor", "pointer");
   }
@@ -963,6 +1320,7 @@ function drawLinkWithSplineChart(
   edgeSplineCharts[edgeId] = splineChart;
   
   // Update spline chart with the learnable function
+  splineChart.setSymbolicCurve(getSymbolicCurve(edge));
   splineChart.updateFunction(edge.learnableFunction);
   
   // Apply initial active/inactive styling
@@ -987,23 +1345,13 @@ function drawLinkWithSplineChart(
     
     // Repopulate histograms with current network state
     trainData.forEach((point) => {
-      let input = constructInput(point.x, point.y);
+      let input = getInput(state, point.x, point.y);
       kan.kanForwardProp(network, input, true);
     });
     
     // Update visualizations (forced because this is a user interaction)
     updateWeightsUI(network, d3.select("g.core"), true);
-    updateDecisionBoundary(network, false);
-    
-    let selectedId = selectedNodeId != null ?
-        selectedNodeId : kan.getKANOutputNode(network).id;
-    heatMap.updateBackground(boundary[selectedId], state.discretize);
-    
-    d3.select("#network").selectAll("div.canvas")
-        .each(function(data: {heatmap: HeatMap, id: string}) {
-      data.heatmap.updateBackground(reduceMatrix(boundary[data.id], 10),
-          state.discretize);
-    });
+    networkEdited();
     
     // Update hover card if it's showing this edge
     if (currentHoverCardEdge === edge && hoverCardSplineChart) {
@@ -1125,94 +1473,205 @@ function drawLinkWithSplineChart(
 }
 
 /**
- * Helper function to update all heatmaps after a network change.
- * Computes the decision boundary and updates both main and node-specific heatmaps.
+ * Draws the hovered node in the main heatmap, or else the network output:
+ * the most likely class for multi-class problems, the single output
+ * otherwise.
  */
-function updateHeatmapsForNetwork(network: kan.KANNode[][]) {
-  updateDecisionBoundary(network, false);
-  
-  // Update the main heatmap
-  let selectedId = selectedNodeId != null ?
-      selectedNodeId : kan.getKANOutputNode(network).id;
-  heatMap.updateBackground(boundary[selectedId], state.discretize);
-  
-  // Update all node-specific heatmaps
-  d3.select("#network").selectAll("div.canvas")
-      .each(function(data: {heatmap: HeatMap, id: string}) {
-    data.heatmap.updateBackground(reduceMatrix(boundary[data.id], 10),
+function updateMainHeatmap() {
+  if (selectedNodeId != null) {
+    heatMap.updateBackground(boundary[selectedNodeId], state.discretize);
+  } else if (state.problem === Problem.MULTICLASS) {
+    heatMap.updateClassBackground(classBoundary, state.discretize);
+  } else {
+    heatMap.updateBackground(boundary[kan.getKANOutputNode(network).id],
         state.discretize);
-  });
+  }
 }
 
-/**
- * Given a KAN network, it asks the network for the output (prediction)
- * of every node in the network using inputs sampled on a square grid.
- * It returns a map where each key is the node ID and the value is a square
- * matrix of the outputs of the network for each input in the grid respectively.
- */
-function updateDecisionBoundary(network: kan.KANNode[][], firstTime: boolean) {
-  if (firstTime) {
-    boundary = {};
-    kan.forEachKANNode(network, true, node => {
-      boundary[node.id] = new Array(DENSITY);
-    });
-    // Go through all predefined inputs.
-    for (let nodeId in INPUTS) {
-      boundary[nodeId] = new Array(DENSITY);
+/** Inputs of the cells of the decision boundary grid, column by column. */
+function getBoundaryInputs(): number[][] {
+  let xScale = d3.scale.linear().domain([0, DENSITY - 1]).range(xDomain);
+  let yScale = d3.scale.linear().domain([DENSITY - 1, 0]).range(xDomain);
+  let inputs: number[][] = [];
+  for (let i = 0; i < DENSITY; i++) {
+    for (let j = 0; j < DENSITY; j++) {
+      inputs.push(getInput(state, xScale(i), yScale(j)));
     }
   }
+  return inputs;
+}
+
+/**
+ * Starts the decision boundaries of a new network: the input features are
+ * computed here, the nodes are filled in by setDecisionBoundary.
+ */
+function initDecisionBoundary() {
+  boundary = {};
+  classBoundary = null;
   let xScale = d3.scale.linear().domain([0, DENSITY - 1]).range(xDomain);
   let yScale = d3.scale.linear().domain([DENSITY - 1, 0]).range(xDomain);
+  // Go through all predefined inputs.
+  for (let nodeId in INPUTS) {
+    boundary[nodeId] = new Array(DENSITY);
+    for (let i = 0; i < DENSITY; i++) {
+      boundary[nodeId][i] = new Array(DENSITY);
+      for (let j = 0; j < DENSITY; j++) {
+        boundary[nodeId][i][j] = INPUTS[nodeId].f(xScale(i), yScale(j));
+      }
+    }
+  }
+}
 
-  let i = 0, j = 0;
-  for (i = 0; i < DENSITY; i++) {
-    if (firstTime) {
-      kan.forEachKANNode(network, true, node => {
-        boundary[node.id][i] = new Array(DENSITY);
-      });
-      // Go through all predefined inputs.
-      for (let nodeId in INPUTS) {
+/**
+ * Stores the node outputs on the grid computed by the training session (see
+ * getBoundaryInputs) as square matrices, and the class probabilities of
+ * multi-class problems.
+ */
+function setDecisionBoundary(grids: {[nodeId: string]: Float64Array}) {
+  for (let nodeId in grids) {
+    if (!boundary[nodeId]) {
+      boundary[nodeId] = new Array(DENSITY);
+      for (let i = 0; i < DENSITY; i++) {
         boundary[nodeId][i] = new Array(DENSITY);
       }
     }
-    for (j = 0; j < DENSITY; j++) {
-      // 1 for points inside the circle, and 0 for points outside the circle.
-      let x = xScale(i);
-      let y = yScale(j);
-      let input = constructInput(x, y);
-      kan.kanForwardProp(network, input, false);
-      kan.forEachKANNode(network, true, node => {
-        boundary[node.id][i][j] = node.output;
-      });
-      if (firstTime) {
-        // Go through all predefined inputs.
-        for (let nodeId in INPUTS) {
-          boundary[nodeId][i][j] = INPUTS[nodeId].f(x, y);
-        }
+    let grid = grids[nodeId];
+    for (let i = 0; i < DENSITY; i++) {
+      for (let j = 0; j < DENSITY; j++) {
+        boundary[nodeId][i][j] = grid[i * DENSITY + j];
       }
     }
   }
+  if (state.problem !== Problem.MULTICLASS) {
+    return;
+  }
+  let outputIds = kan.getKANOutputNodes(network).map(node => node.id);
+  classBoundary = new Array(DENSITY);
+  for (let i = 0; i < DENSITY; i++) {
+    classBoundary[i] = new Array(DENSITY);
+    for (let j = 0; j < DENSITY; j++) {
+      classBoundary[i][j] = kan.softmax(
+          outputIds.map(id => grids[id][i * DENSITY + j]));
+    }
+  }
+}
+
+/** Number of output nodes of the current problem. */
+function getNumOutputs(): number {
+  return getNumOutputsFor(state, trainData.concat(testData));
+}
+
+/** The training settings chosen in the UI. */
+function getTrainingConfig(): TrainingConfig {
+  return toTrainingConfig(getTrainerOptions(state));
 }
 
-function getLoss(network: kan.KANNode[][], dataPoints: Example2D[]): number {
-  let loss = 0;
-  for (let i = 0; i < dataPoints.length; i++) {
-    let dataPoint = dataPoints[i];
-    let input = constructInput(dataPoint.x, dataPoint.y);
-    let output = kan.kanForwardProp(network, input, false);
-    loss += kan.Errors.SQUARE.error(output, dataPoint.label);
+/** The examples and the boundary grid as features for the session. */
+function getTrainingData(): TrainingData {
+  let data = getDataset(state, trainData, testData);
+  return {
+    trainInputs: data.trainInputs,
+    trainTargets: data.trainTargets,
+    testInputs: data.testInputs,
+    testTargets: data.testTargets,
+    boundaryInputs: getBoundaryInputs()
+  };
+}
+
+/** Asks the training session for one epoch. */
+function requestStep(): void {
+  if (awaitingSnapshot) {
+    stepQueued = true;
+    return;
   }
-  return loss / dataPoints.length;
+  awaitingSnapshot = true;
+  trainer.post({type: "step", config: getTrainingConfig()});
 }
 
-function updateUI(firstStep = false) {
+/**
+ * Asks the training session for the losses and decision boundary of the
+ * current network. Requests made while a snapshot is on its way are merged.
+ */
+function requestEvaluation(): void {
+  if (awaitingSnapshot) {
+    evaluationQueued = true;
+    return;
+  }
+  awaitingSnapshot = true;
+  trainer.post({type: "evaluate", config: getTrainingConfig()});
+}
+
+function trainerResponded(response: TrainingResponse): void {
+  if (response.type === "snapshot") {
+    snapshotReceived(response);
+  } else if (response.type === "error") {
+    awaitingSnapshot = false;
+    stepQueued = evaluationQueued = false;
+    player.pause();
+    console.error(`Training failed: ${response.message}`);
+  }
+}
+
+/**
+ * Records a grid size the network got during training in the state and the
+ * control points dropdown, without refitting the network again.
+ */
+function numControlPointsChanged(numControlPoints: number): void {
+  if (state.numControlPoints === numControlPoints) {
+    return;
+  }
+  state.numControlPoints = numControlPoints;
+  state.serialize();
+  let select = d3.select("#numControlPoints");
+  if (select.select(`option[value="${numControlPoints}"]`).empty()) {
+    // Grid extension goes beyond the sizes of the dropdown.
+    select.append("option")
+      .attr("value", numControlPoints)
+      .text(numControlPoints);
+  }
+  select.property("value", numControlPoints);
+}
+
+/**
+ * Shows a snapshot of the training session, unless the network was changed
+ * on the page after the snapshot was taken, and sends the queued requests.
+ */
+function snapshotReceived(snapshot: TrainingSnapshot): void {
+  awaitingSnapshot = false;
+  if (snapshot.version === networkVersion) {
+    iter = snapshot.iter;
+    lossTrain = snapshot.lossTrain;
+    lossTest = snapshot.lossTest;
+    regularization = snapshot.regularization;
+    effectiveLearningRate = snapshot.learningRate;
+    if (!applySnapshot(network, snapshot.network)) {
+      // The session refined the grid.
+      network = restoreNetwork(snapshot.network);
+      numControlPointsChanged(getNumControlPoints(network));
+      updateHoverCard(null);
+      drawNetwork(network);
+    }
+    setDecisionBoundary(snapshot.boundary);
+    updateUI(snapshot.trained || chartNeedsFirstPoint, !snapshot.trained);
+    chartNeedsFirstPoint = false;
+  }
+  if (stepQueued || player.isRunning()) {
+    stepQueued = evaluationQueued = false;
+    requestStep();
+  } else if (evaluationQueued) {
+    evaluationQueued = false;
+    requestEvaluation();
+  }
+}
+
+/**
+ * Refreshes the visualization from the current losses and decision
+ * boundary; addDataPoint extends the loss chart.
+ */
+function updateUI(addDataPoint = true, forceUpdate = false) {
   // Update the links visually (debounced during training for better performance)
-  updateWeightsUI(network, d3.select("g.core"), false);
-  // Get the decision boundary of the network.
-  updateDecisionBoundary(network, firstStep);
-  let selectedId = selectedNodeId != null ?
-      selectedNodeId : kan.getKANOutputNode(network).id;
-  heatMap.updateBackground(boundary[selectedId], state.discretize);
+  updateWeightsUI(network, d3.select("g.core"), forceUpdate);
+  updateMainHeatmap();
 
   // Update all decision boundaries.
   d3.select("#network").selectAll("div.canvas")
@@ -1237,44 +1696,121 @@ function updateUI(firstStep = false) {
   // Update loss and iteration number.
   d3.select("#loss-train").text(humanReadable(lossTrain));
   d3.select("#loss-test").text(humanReadable(lossTest));
+  d3.select("#regularization").text(humanReadable(regularization));
   d3.select("#iter-number").text(addCommas(zeroPad(iter)));
-  lineChart.addDataPoint([lossTrain, lossTest]);
+  d3.select("#effective-lr")
+      .text(`lr ${+effectiveLearningRate.toPrecision(3)}`);
+  if (addDataPoint) {
+    lineChart.addDataPoint(
+        [lossTrain, lossTest, regularization, effectiveLearningRate]);
+  }
 }
 
-function constructInputIds(): string[] {
-  let result: string[] = [];
-  for (let inputName in INPUTS) {
-    if (state[inputName]) {
-      result.push(inputName);
-    }
-  }
-  return result;
+/**
+ * Sends the network to the training session after it was changed outside of
+ * a training step. The losses and heatmaps are refreshed when the session
+ * answers.
+ */
+function networkEdited(reset = false): void {
+  networkVersion++;
+  trainer.post({type: "network", version: networkVersion,
+      network: takeSnapshot(network), reset});
+  requestEvaluation();
 }
 
-function constructInput(x: number, y: number): number[] {
-  let input: number[] = [];
-  for (let inputName in INPUTS) {
-    if (state[inputName]) {
-      input.push(INPUTS[inputName].f(x, y));
-    }
-  }
-  return input;
+/** Sends the new parameters of an edited edge to the training session. */
+function edgeEdited(edge: kan.KANEdge): void {
+  networkVersion++;
+  trainer.post({type: "edit", version: networkVersion, edgeId: edge.id,
+      parameters: edge.getParameters()});
+  requestEvaluation();
 }
 
-function oneStep(): void {
-  iter++;
-  trainData.forEach((point, i) => {
-    let input = constructInput(point.x, point.y);
-    kan.kanForwardProp(network, input);
-    kan.kanBackProp(network, point.label, kan.Errors.SQUARE);
-    if ((i + 1) % state.batchSize === 0) {
-      kan.updateKANWeights(network, state.learningRate);
-    }
+/**
+ * Adapts the spline grids of all edges to the inputs they have seen and
+ * refreshes the visualization.
+ */
+function updateGrids(): void {
+  kan.updateKANGrids(network);
+  networkEdited();
+}
+
+/**
+ * Deactivates the edges and nodes whose activations are below the pruning
+ * threshold and reports the losses before and after.
+ */
+function pruneNetwork(): void {
+  let data = getDataset(state, trainData, testData);
+  let lossFunc = getLossFunction(state);
+  let trainBefore =
+      computeLoss(network, data.trainInputs, data.trainTargets, lossFunc);
+  let testBefore =
+      computeLoss(network, data.testInputs, data.testTargets, lossFunc);
+  // Score the edges on the whole training set rather than on the decayed
+  // histograms, which lag behind the current network.
+  let pruned = kan.pruneKANNetwork(network, state.pruneThreshold,
+      state.pruneThreshold, data.trainInputs);
+
+  // Recompute the histograms with the pruned network.
+  kan.resetKANHistograms(network);
+  trainData.forEach((point) => {
+    let input = getInput(state, point.x, point.y);
+    kan.kanForwardProp(network, input, true);
+  });
+  updateHoverCard(null);
+  drawNetwork(network);
+  networkEdited();
+  let trainAfter =
+      computeLoss(network, data.trainInputs, data.trainTargets, lossFunc);
+  let testAfter =
+      computeLoss(network, data.testInputs, data.testTargets, lossFunc);
+
+  let edgeSuffix = pruned.edges.length !== 1 ? "s" : "";
+  let nodeSuffix = pruned.nodes.length !== 1 ? "s" : "";
+  let report = d3.select("#prune-report").style("display", null);
+  report.select(".prune-summary").text(
+      `Pruned ${pruned.edges.length} edge${edgeSuffix} and ` +
+      `${pruned.nodes.length} node${nodeSuffix}.`);
+  report.select(".prune-loss-train").text(
+      `${trainBefore.toFixed(3)} → ${trainAfter.toFixed(3)}`);
+  report.select(".prune-loss-test").text(
+      `${testBefore.toFixed(3)} → ${testAfter.toFixed(3)}`);
+  let hasInactiveNodes = false;
+  kan.forEachKANNode(network, true, node => {
+    hasInactiveNodes = hasInactiveNodes || !node.isActive;
   });
-  // Compute the loss.
-  lossTrain = getLoss(network, trainData);
-  lossTest = getLoss(network, testData);
-  updateUI();
+  report.select("#compact-button")
+      .style("display", hasInactiveNodes ? null : "none");
+}
+
+/**
+ * Removes the inactive hidden nodes from the network and redraws it with the
+ * smaller layers.
+ */
+function compactNetwork(): void {
+  network = kan.compactKANNetwork(network);
+  state.networkShape = network.slice(1, network.length - 1)
+      .map(layer => layer.length);
+  state.serialize();
+  d3.select("#prune-report").style("display", "none");
+  updateHoverCard(null);
+  drawNetwork(network);
+  networkEdited();
+}
+
+/**
+ * Replaces the network by a copy whose splines have gridSize + 1 control
+ * points and are fit to the current ones, keeping the training progress.
+ */
+function extendGrid(gridSize: number): void {
+  updateHoverCard(null);
+  network = kan.extendKANGrid(network, gridSize);
+  // Populate the histograms of the new edges.
+  trainData.forEach((point) => {
+    let input = getInput(state, point.x, point.y);
+    kan.kanForwardProp(network, input, true);
+  });
+  drawNetwork(network);
 }
 
 export function getOutputWeights(network: kan.KANNode[][]): number[] {
@@ -1315,25 +1851,186 @@ function reset(onStartup=false) {
 
   // Make a KAN network.
   iter = 0;
-  let numInputs = constructInput(0 , 0).length;
-  let shape = [numInputs].concat(state.networkShape).concat([1]);
+  network = buildNetwork(state, getNumOutputs());
+  networkReplaced();
+};
 
-  // Derive gridSize from numControlPoints
-  const derivedGridSize = Math.max(1, Math.floor(state.numControlPoints) - 1);
+/** Number of nodes per layer for the current state, the inputs first. */
+function getNetworkShape(): number[] {
+  return getNetworkShapeFor(state, getNumOutputs());
+}
 
-  network = kan.buildKANNetwork(shape, constructInputIds(), derivedGridSize, state.degree, state.initNoise);
+/** Shows a new network and starts a training session on it. */
+function networkReplaced(): void {
+  d3.select("#prune-report").style("display", "none");
+  d3.select("#formula-panel .formula-result").style("display", "none");
   
   // Populate histograms with initial forward passes using training data
   trainData.forEach((point) => {
-    let input = constructInput(point.x, point.y);
+    let input = getInput(state, point.x, point.y);
     kan.kanForwardProp(network, input, true);
   });
   
-  lossTrain = getLoss(network, trainData);
-  lossTest = getLoss(network, testData);
+  initDecisionBoundary();
   drawNetwork(network);
-  updateUI(true);
-};
+  trainer.post({type: "data", data: getTrainingData()});
+  chartNeedsFirstPoint = true;
+  networkEdited(true);
+}
+
+/** Lets the browser save the text as a file. */
+function downloadFile(fileName: string, text: string, type: string): void {
+  let url = URL.createObjectURL(new Blob([text], {type}));
+  let link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/** Saves the network and the state as a JSON model file. */
+function downloadModel(): void {
+  downloadFile("kan-model.json", saveModel(network, state.toHash()),
+      "application/json");
+}
+
+/** Saves the network as a standalone function in the given language. */
+function downloadCode(language: CodeLanguage): void {
+  let features = network[0].map(node => ({
+    id: node.id,
+    code: INPUTS[node.id].code,
+    python: INPUTS[node.id].python
+  }));
+  let source: string;
+  try {
+    source = generateCode(network, features, language);
+  } catch (e) {
+    alert(`Could not generate code: ${e.message}`);
+    return;
+  }
+  let extensions = {typescript: "ts", javascript: "js", python: "py"};
+  downloadFile(`kan-model.${extensions[language]}`, source, "text/plain");
+}
+
+/** Saves the network as a pykan checkpoint (see pykan.ts). */
+function downloadPykan(): void {
+  let pykanState: PykanState;
+  try {
+    pykanState = exportPykan(network);
+  } catch (e) {
+    alert(`Could not export the model to pykan: ${e.message}`);
+    return;
+  }
+  downloadFile("kan-pykan.json", JSON.stringify(pykanState),
+      "application/json");
+}
+
+/**
+ * Converts a pykan checkpoint into a model file with the settings it needs
+ * (shape, grid size, degree, base function) and loads it.
+ */
+function loadPykan(pykanState: PykanState): void {
+  let text: string;
+  try {
+    let loadedNetwork = importPykan(pykanState, getInputIds(state));
+    let shape = loadedNetwork.map(layer => layer.length);
+    if (shape[shape.length - 1] !== getNumOutputs()) {
+      throw new Error(`The model has ${shape[shape.length - 1]} outputs, ` +
+          `but the problem needs ${getNumOutputs()}`);
+    }
+    let edge = loadedNetwork[1][0].inputEdges[0];
+    let changes: {[name: string]: any} = {
+      networkShape: shape.slice(1, shape.length - 1),
+      numControlPoints: edge.learnableFunction.controlPoints.length,
+      degree: edge.learnableFunction.degree,
+      basis: kan.Bases.BSPLINE,
+      extrapolation: kan.Extrapolations.CLAMP,
+      baseFunction: edge.baseFunction,
+      nodeAffine: loadedNetwork[1][0].hasAffine,
+      normalization: false
+    };
+    // The state of the model: the current one with the changes above
+    let previous: {[name: string]: any} = {};
+    for (let name in changes) {
+      previous[name] = state[name];
+      state[name] = changes[name];
+    }
+    let hash = state.toHash();
+    for (let name in previous) {
+      state[name] = previous[name];
+    }
+    text = saveModel(loadedNetwork, hash);
+  } catch (e) {
+    alert(`Could not import the pykan model: ${e.message}`);
+    return;
+  }
+  loadModel(text);
+}
+
+/** Loads a model file or a pykan checkpoint. */
+function readModelFile(file: File): void {
+  let reader = new FileReader();
+  reader.onload = () => {
+    let text = reader.result as string;
+    let data: any = null;
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      // loadModel reports the error.
+    }
+    if (isPykanState(data)) {
+      loadPykan(data);
+    } else {
+      loadModel(text);
+    }
+  };
+  reader.onerror = () => alert(`Could not read ${file.name}`);
+  reader.readAsText(file);
+}
+
+/**
+ * Replaces the network with a model file. The controls are set up from the
+ * state when the page loads, so a model saved with other settings is
+ * loaded by reloading the page with its state; afterReload is set then.
+ */
+function loadModel(text: string, afterReload = false): void {
+  let loadedNetwork: kan.KANNode[][];
+  try {
+    let model = parseModel(text);
+    if (!afterReload && model.state !== state.toHash()) {
+      sessionStorage.setItem(PENDING_MODEL_KEY, text);
+      window.location.hash = model.state;
+      window.location.reload();
+      return;
+    }
+    loadedNetwork = restoreNetwork(model.network);
+    let shape = loadedNetwork.map(layer => layer.length);
+    if (shape.join("-") !== getNetworkShape().join("-") ||
+        model.inputIds.join(",") !== getInputIds(state).join(",")) {
+      throw new Error("The network does not match the settings of the model");
+    }
+  } catch (e) {
+    alert(`Could not load the model: ${e.message}`);
+    return;
+  }
+  player.pause();
+  lineChart.reset();
+  iter = 0;
+  network = loadedNetwork;
+  updateHoverCard(null);
+  networkReplaced();
+}
+
+/** Loads the model left by loadModel before the page was reloaded. */
+function loadPendingModel(): void {
+  let text = sessionStorage.getItem(PENDING_MODEL_KEY);
+  if (text != null) {
+    sessionStorage.removeItem(PENDING_MODEL_KEY);
+    loadModel(text, true);
+  }
+}
 
 function initTutorial() {
   if (state.tutorial == null || state.tutorial === '' || state.hideText) {
@@ -1363,7 +2060,7 @@ function initTutorial() {
 }
 
 function drawDatasetThumbnails() {
-  function renderThumbnail(canvas, dataGenerator) {
+  function renderThumbnail(canvas, dataGenerator, multiclass = false) {
     let w = 100;
     let h = 100;
     canvas.setAttribute("width", w);
@@ -1371,7 +2068,8 @@ function drawDatasetThumbnails() {
     let context = canvas.getContext("2d");
     let data = dataGenerator(200, 0);
     data.forEach(function(d) {
-      context.fillStyle = colorScale(d.label);
+      context.fillStyle = multiclass ?
+          CLASS_COLORS[d.label % CLASS_COLORS.length] : colorScale(d.label);
       context.fillRect(w * (d.x + 6) / 12, h * (d.y + 6) / 12, 4, 4);
     });
     d3.select(canvas.parentNode).style("display", null);
@@ -1394,6 +2092,29 @@ function drawDatasetThumbnails() {
       renderThumbnail(canvas, dataGenerator);
     }
   }
+  if (state.problem === Problem.MULTICLASS) {
+    for (let multiclassDataset in multiclassDatasets) {
+      let canvas: any = document.querySelector(
+          `canvas[data-multiclassDataset=${multiclassDataset}]`);
+      let dataGenerator = multiclassDatasets[multiclassDataset];
+      renderThumbnail(canvas, dataGenerator, true);
+    }
+  }
+}
+
+/** Shows the setting of the chosen learning-rate schedule, if it has one. */
+function updateScheduleParameters() {
+  let key = getKeyFromValue(learningRateSchedules, state.learningRateSchedule);
+  let parameters = d3.selectAll(".schedule-parameter");
+  parameters.style("display", function() {
+    return this.getAttribute("data-schedule") === key ? null : "none";
+  });
+  let hasParameter = parameters.filter(function() {
+    return this.getAttribute("data-schedule") === key;
+  }).size() > 0;
+  let isHidden = state.getHiddenProps().indexOf("scheduleParameters") !== -1;
+  d3.select(".ui-scheduleParameters")
+      .style("display", hasParameter && !isHidden ? null : "none");
 }
 
 function hideControls() {
@@ -1443,20 +2164,17 @@ function generateData(firstTime = false) {
     state.serialize();
     userHasInteracted();
   }
-  Math.seedrandom(state.seed);
-  let numSamples = (state.problem === Problem.REGRESSION) ?
-      NUM_SAMPLES_REGRESS : NUM_SAMPLES_CLASSIFY;
-  let generator = state.problem === Problem.CLASSIFICATION ?
-      state.dataset : state.regDataset;
-  let data = generator(numSamples, state.noise / 100);
-  // Shuffle the data in-place.
-  shuffle(data);
-  // Split into train and test data.
-  let splitIndex = Math.floor(data.length * state.percTrainData / 100);
-  trainData = data.slice(0, splitIndex);
-  testData = data.slice(splitIndex);
+  let examples = generateExamples(state);
+  trainData = examples.trainData;
+  testData = examples.testData;
+  heatMap.setClassColors(
+      state.problem === Problem.MULTICLASS ? CLASS_COLORS : null);
   heatMap.updatePoints(trainData);
   heatMap.updateTestPoints(state.showTestData ? testData : []);
+  if (network != null) {
+    trainer.post({type: "data", data: getTrainingData()});
+    requestEvaluation();
+  }
 }
 
 let firstInteraction = true;
@@ -1513,10 +2231,11 @@ function updateHoverCard(type: HoverType, nodeOrEdge?: kan.KANNode | kan.KANEdge
   const scrollX = window.pageXOffset || document.documentElement.scrollLeft;
   const scrollY = window.pageYOffset || document.documentElement.scrollTop;
   
-  // For weight hover cards, position below the spline chart
-  // Center the hover card horizontally relative to the spline chart
+  // Position below the spline chart or node, centered horizontally
+  const halfHeight = type === HoverType.NODE ?
+      RECT_SIZE / 2 : SPLINE_CHART_SIZE_Y / 2;
   finalX = coordinates[0] - 150; // Center 300px hover card around spline chart
-  finalY = coordinates[1] + (SPLINE_CHART_SIZE_Y / 2) + 15; // Position below spline chart with 15px gap
+  finalY = coordinates[1] + halfHeight + 15; // Position below with a 15px gap
   
   // Ensure hover card stays within viewport bounds (accounting for scroll)
   const viewportWidth = window.innerWidth;
@@ -1535,7 +2254,7 @@ function updateHoverCard(type: HoverType, nodeOrEdge?: kan.KANNode | kan.KANEdge
   // Prevent going off bottom edge (estimated 350px hover card height + padding)
   if (finalY - scrollY + 350 > viewportHeight) {
     // If no room below, position above the spline chart
-    finalY = coordinates[1] - (SPLINE_CHART_SIZE_Y / 2) - 360;
+    finalY = coordinates[1] - halfHeight - 360;
     // Ensure it doesn't go off the top
     if (finalY - scrollY < 10) {
       finalY = scrollY + 10;
@@ -1595,17 +2314,9 @@ function updateHoverCard(type: HoverType, nodeOrEdge?: kan.KANNode | kan.KANEdge
     
     // Set callback to update the main network visualization when control points change
     hoverCardSplineChart.setOnControlPointChange((index: number, newValue: number) => {
-      // Update output histogram range to match new spline range
-      edge.updateOutputHistogramRange();
-      
-      // Clear the histogram since the spline function has changed
-      edge.resetHistogram();
-      
-      // Run forward passes with training data to repopulate histograms
-      trainData.forEach((point) => {
-        let input = constructInput(point.x, point.y);
-        kan.kanForwardProp(network, input, true);
-      });
+      // The session recomputes the histograms, losses and heatmaps; its
+      // snapshot refreshes the rest of the visualization
+      edgeEdited(edge);
       
       // Only update the edge visualization immediately (lightweight)
       let edgeId = `${edge.sourceNode.id}-${edge.destNode.id}`;
@@ -1613,38 +2324,6 @@ function updateHoverCard(type: HoverType, nodeOrEdge?: kan.KANNode | kan.KANEdge
         edgeSplineCharts[edgeId].updateFunction(edge.learnableFunction);
       }
       
-      // Update the hovercard's histogram display with fresh activation data
-      const inputHistogramData = edge.getNormalizedHistogram();
-      const outputHistogramData = edge.getNormalizedOutputHistogram();
-      hoverCardSplineChart.updateFunction(edge.learnableFunction, inputHistogramData, outputHistogramData, edge.outputHistogramRange);
-      
-      // Update link colors/widths for this specific edge using absolute std values
-      const inputStdBoundary = 0.6;  // Typical std for inputs in [-1, 1] range
-      const outputStdBoundary = 0.6; // Typical std for outputs in [-1, 1] range
-      
-      const inputStd = edge.getInputActivationStd();
-      const outputStd = edge.getOutputActivationStd();
-      const normalizedInputStd = Math.min(1, inputStd / inputStdBoundary);
-      const normalizedOutputStd = Math.min(1, outputStd / outputStdBoundary);
-      
-      let svgContainer = d3.select("g.core");
-      svgContainer.select(`#link${edgeId}-part1`)
-          .style({
-            "stroke-width": linkWidthScale(normalizedInputStd),
-            "stroke": linkColorScale(normalizedInputStd)
-          });
-      svgContainer.select(`#link${edgeId}-part2`)
-          .style({
-            "stroke-width": linkWidthScale(normalizedOutputStd),
-            "stroke": linkColorScale(normalizedOutputStd)
-          });
-      
-      // Throttled heatmap updates during drag for visual feedback
-      const now = Date.now();
-      if (now - lastHeatmapUpdateTime >= HEATMAP_UPDATE_THROTTLE_MS) {
-        lastHeatmapUpdateTime = now;
-        updateHeatmapsForNetwork(network);
-      }
     });
     
     // Set callbacks for drag start and end to prevent hovercard from hiding during drag
@@ -1655,24 +2334,303 @@ function updateHoverCard(type: HoverType, nodeOrEdge?: kan.KANNode | kan.KANEdge
     hoverCardSplineChart.setOnDragEnd(() => {
       isDraggingControlPoint = false;
       
-      // Final update after drag is complete (forced because this is a user interaction)
-      updateWeightsUI(network, d3.select("g.core"), true);
-      updateHeatmapsForNetwork(network);
-      
       // Don't hide the hovercard after drag - let the normal mouse leave handlers manage it
     });
     
     // Update with the learnable function and histogram data
     const inputHistogramData = edge.getNormalizedHistogram();
     const outputHistogramData = edge.getNormalizedOutputHistogram();
+    hoverCardSplineChart.setSymbolicCurve(getSymbolicCurve(edge));
     hoverCardSplineChart.updateFunction(edge.learnableFunction, inputHistogramData, outputHistogramData, edge.outputHistogramRange, false);
     currentHoverCardEdge = edge;
+
+    drawInputRange(hovercard, edge);
+    drawSymbolicFits(hovercard, edge);
+
+    // Show the basis statistics behind the Glorot-like initialization.
+    if (state.initNoise === "xavier") {
+      drawBasisStatistics(hovercard, edge.learnableFunction);
+    }
     
     // Now that chart is fully configured with correct y-scale, make hovercard visible
     hovercard.style("display", "block");
+  } else if (type === HoverType.NODE) {
+    currentHoverCardEdge = null;
+    drawNodeTransform(hovercard, nodeOrEdge as kan.KANNode);
+    hovercard.style("display", "block");
   }
 }
 
+/**
+ * Shows how a node maps the sum of its edges to its output: the running
+ * statistics of the normalization and the learned scale and bias.
+ */
+function drawNodeTransform(container, node: kan.KANNode) {
+  let isOutput = network[network.length - 1].indexOf(node) !== -1;
+  let div = container.append("div").attr("class", "node-transform");
+  div.append("div").attr("class", "node-transform-title")
+    .text(isOutput ? `Output ${node.id}` : `Node ${node.id}`);
+  let formula = node.normalize ? "(sum − mean) / std" : "sum";
+  if (node.hasAffine) {
+    formula = `scale · ${node.normalize ? `(${formula})` : formula} + bias`;
+  }
+  div.append("div").attr("class", "formula").text(`output = ${formula}`);
+  let addRow = (label: string, value: string) => {
+    let row = div.append("div").attr("class", "node-transform-row");
+    row.append("span").attr("class", "label").text(label);
+    row.append("span").text(value);
+  };
+  if (node.normalize) {
+    addRow("mean", node.runningMean.toPrecision(4));
+    addRow("std", node.getRunningStd().toPrecision(4));
+    addRow("examples", String(node.numStatistics));
+  }
+  if (node.hasAffine) {
+    addRow("scale", node.scale.toPrecision(4));
+    addRow("bias", node.bias.toPrecision(4));
+  }
+}
+
+/**
+ * Draws the expected squared basis values E[B_m(x)^2] and derivatives
+ * E[B'_m(x)^2] of the function's grid (for x ~ N(0, 1)) as two bar rows.
+ */
+function drawBasisStatistics(container, fn: kan.LearnableFunction) {
+  const stats = kan.getBasisStatistics(fn.gridSize, fn.degree, fn.inputRange,
+      "normal", fn.basis);
+  const width = 240;
+  const height = 24;
+  let div = container.append("div").attr("class", "basis-stats");
+  div.append("div")
+    .attr("class", "basis-stats-title")
+    .text("Basis statistics at initialization, x ~ N(0, 1)");
+
+  [["E[B²]", stats.mu0], ["E[B'²]", stats.mu1]].forEach(
+      ([label, values]: [string, number[]]) => {
+    let row = div.append("div").attr("class", "basis-stats-row");
+    row.append("span").attr("class", "label").text(label);
+    let maxValue = Math.max(...values, 1e-12);
+    let barWidth = width / values.length;
+    row.append("svg")
+      .attr({width, height})
+      .selectAll("rect")
+      .data(values)
+      .enter()
+      .append("rect")
+      .attr({
+        x: (d: number, i: number) => i * barWidth,
+        y: (d: number) => height * (1 - d / maxValue),
+        width: Math.max(1, barWidth - 1),
+        height: (d: number) => height * d / maxValue
+      })
+      .append("title")
+      .text((d: number, i: number) => `B${i}: ${d.toPrecision(3)}`);
+  });
+}
+
+/** Names of the enabled input features in the formula formats. */
+function getFormulaVariableNames(): {[id: string]: formula.VariableName} {
+  let names: {[id: string]: formula.VariableName} = {};
+  for (let inputName in INPUTS) {
+    let label = INPUTS[inputName].label;
+    names[inputName] = {
+      // "X_1X_2" -> "x1*x2", "sin(X_1)" -> "sin(x1)"
+      text: label.replace(/_/g, "").replace(/(\d)X/g, "$1*X").toLowerCase(),
+      latex: label.replace("sin(", "\\sin(").replace(/X/g, "x")
+    };
+  }
+  return names;
+}
+
+/**
+ * Extracts a closed-form formula of the network output and shows it with
+ * its R² against the network predictions on the training data.
+ */
+function showFormula(): void {
+  let result = formula.extractFormula(network, getFormulaVariableNames());
+  let inputIds = getInputIds(state);
+  let meanOutput = 0;
+  let outputs = trainData.map(point => {
+    let output = kan.kanForwardProp(network,
+        getInput(state, point.x, point.y), false)[0];
+    meanOutput += output / trainData.length;
+    return output;
+  });
+  let ssRes = 0;
+  let ssTot = 0;
+  trainData.forEach((point, i) => {
+    let input = getInput(state, point.x, point.y);
+    let variables: {[id: string]: number} = {};
+    inputIds.forEach((id, j) => variables[id] = input[j]);
+    let error = formula.evaluateExpr(result.expr, variables) - outputs[i];
+    ssRes += error * error;
+    ssTot += (outputs[i] - meanOutput) * (outputs[i] - meanOutput);
+  });
+  let r2 = ssTot > 0 ? 1 - ssRes / ssTot : (ssRes === 0 ? 1 : 0);
+
+  let panel = d3.select("#formula-panel");
+  panel.select(".formula-result").style("display", null);
+  panel.select(".formula-fidelity")
+    .text(`R² vs. network on training data: ${r2.toFixed(4)}`);
+  panel.select("#formula-text").text(result.text);
+  panel.select("#formula-latex").text(result.latex);
+}
+
+/** Copies text to the clipboard through a temporary text area. */
+function copyToClipboard(text: string): void {
+  let textArea = document.createElement("textarea");
+  textArea.value = text;
+  textArea.style.position = "fixed";
+  textArea.style.opacity = "0";
+  document.body.appendChild(textArea);
+  textArea.select();
+  document.execCommand("copy");
+  document.body.removeChild(textArea);
+}
+
+/** Returns the formula an edge is fixed to, for the spline charts. */
+function getSymbolicCurve(edge: kan.KANEdge): (x: number) => number {
+  return edge.symbolic ? (x: number) => edge.evaluate(x) : null;
+}
+
+/** The edges into the layer of the edge's destination node. */
+function getLayerEdges(edge: kan.KANEdge): kan.KANEdge[] {
+  let layer = network.filter(nodes => nodes.indexOf(edge.destNode) !== -1)[0];
+  let edges: kan.KANEdge[] = [];
+  layer.forEach(node => edges = edges.concat(node.inputEdges));
+  return edges;
+}
+
+/**
+ * Shows the input range of the edge function with fields to edit it and a
+ * button that fits it to the observed inputs, for the edge or its layer.
+ */
+function drawInputRange(container, edge: kan.KANEdge) {
+  container.selectAll(".input-range").remove();
+  let div = container.append("div").attr("class", "input-range");
+  let row = div.append("div").attr("class", "input-range-row");
+  let [min, max] = edge.learnableFunction.inputRange;
+  row.append("span").text("Input range");
+  let minInput = row.append("input")
+    .attr({type: "number", step: "any"})
+    .property("value", +min.toPrecision(4));
+  row.append("span").text("to");
+  let maxInput = row.append("input")
+    .attr({type: "number", step: "any"})
+    .property("value", +max.toPrecision(4));
+  let fitButton = row.append("button").attr("class", "symbolic-button")
+    .attr("title", "Fit the range to the observed inputs")
+    .text("Fit");
+  let layerLabel = div.append("label").attr("class", "input-range-layer");
+  let layerCheckbox = layerLabel.append("input").attr("type", "checkbox");
+  layerLabel.append("span").text("Apply to the whole layer");
+
+  let getEdges = () => layerCheckbox.property("checked") ?
+      getLayerEdges(edge) : [edge];
+  let onChange = () => {
+    let range: [number, number] =
+        [+minInput.property("value"), +maxInput.property("value")];
+    if (!(range[0] < range[1])) {
+      drawInputRange(container, edge);
+      return;
+    }
+    userHasInteracted();
+    getEdges().forEach(e => e.setInputRange(range));
+    inputRangesChanged();
+    drawInputRange(container, edge);
+  };
+  minInput.on("change", onChange);
+  maxInput.on("change", onChange);
+  fitButton.on("click", () => {
+    userHasInteracted();
+    getEdges().forEach(e => {
+      let range = kan.getFittedInputRange(e);
+      if (range != null) {
+        e.setInputRange(range);
+      }
+    });
+    inputRangesChanged();
+    drawInputRange(container, edge);
+  });
+}
+
+/**
+ * Recomputes the histograms after input ranges were changed and sends the
+ * network to the training session.
+ */
+function inputRangesChanged(): void {
+  kan.resetKANHistograms(network);
+  trainData.forEach((point) => {
+    let input = getInput(state, point.x, point.y);
+    kan.kanForwardProp(network, input, true);
+  });
+  networkEdited();
+}
+
+/**
+ * Lists the best symbolic fits of the edge function with their R², each
+ * with a button that fixes the edge to the formula, or the formula the edge
+ * is fixed to with a button that restores the spline.
+ */
+function drawSymbolicFits(container, edge: kan.KANEdge) {
+  container.selectAll(".symbolic").remove();
+  let div = container.append("div").attr("class", "symbolic");
+  let addRow = (fit: kan.SymbolicFit, buttonText: string,
+      onClick: () => void) => {
+    let row = div.append("div").attr("class", "symbolic-row");
+    row.append("span").attr("class", "formula")
+      .text(symbolic.formatSymbolicFit(fit));
+    row.append("span").attr("class", "r2").text(`R² ${fit.r2.toFixed(3)}`);
+    row.append("button").attr("class", "symbolic-button").text(buttonText)
+      .on("click", () => {
+        userHasInteracted();
+        onClick();
+        drawSymbolicFits(container, edge);
+      });
+  };
+
+  if (edge.symbolic) {
+    div.append("div").attr("class", "symbolic-title").text("Fixed to formula");
+    addRow(edge.symbolic, "Unfix", () => {
+      edge.setSymbolic(null);
+      symbolicChanged([edge]);
+    });
+  } else {
+    div.append("div").attr("class", "symbolic-title")
+      .text("Symbolic fits on the observed inputs");
+    symbolic.suggestSymbolicFits(edge).slice(0, 3).forEach(fit => {
+      addRow(fit, "Fix", () => {
+        edge.setSymbolic(fit);
+        symbolicChanged([edge]);
+      });
+    });
+  }
+}
+
+/**
+ * Refreshes the charts of edges that were fixed to or released from a
+ * symbolic formula, and the rest of the visualization.
+ */
+function symbolicChanged(edges: kan.KANEdge[]): void {
+  edges.forEach(edge => {
+    let edgeId = `${edge.sourceNode.id}-${edge.destNode.id}`;
+    if (edgeSplineCharts[edgeId]) {
+      edgeSplineCharts[edgeId].setSymbolicCurve(getSymbolicCurve(edge));
+    }
+    if (currentHoverCardEdge === edge && hoverCardSplineChart) {
+      hoverCardSplineChart.setSymbolicCurve(getSymbolicCurve(edge));
+    }
+  });
+
+  // Recompute the histograms with the new edge functions.
+  kan.resetKANHistograms(network);
+  trainData.forEach((point) => {
+    let input = getInput(state, point.x, point.y);
+    kan.kanForwardProp(network, input, true);
+  });
+  networkEdited();
+}
+
 function addPlusMinusControl(x: number, layerIdx: number) {
   let div = d3.select("#network").append("div")
     .classed("plus-minus-neurons", true)
@@ -1795,6 +2753,8 @@ document.addEventListener("click", function(event: MouseEvent) {
   }
 });
 
+trainer.onResponse = trainerResponded;
 generateData(true);
 reset(true);
+loadPendingModel();
 hideControls();
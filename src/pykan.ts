@@ -0,0 +1,426 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {
+  BaseFunction,
+  BaseFunctions,
+  Bases,
+  Extrapolations,
+  KANEdge,
+  KANNode,
+  LearnableFunction,
+  buildKANNetwork,
+  forEachKANEdge
+} from "./kan";
+
+/**
+ * Conversion between KAN networks and pykan checkpoints exported as JSON.
+ *
+ * In pykan, the edge from input i to output j of layer l computes
+ * mask * (scale_base * b(x) + scale_sp * spline(x)), where the spline has
+ * order k on a grid of G intervals that is extended by k knots on each side.
+ * All edges leaving input i share one grid. The state dict holds, as nested
+ * lists:
+ *
+ *   act_fun.l.grid        [in, G + 2k + 1]
+ *   act_fun.l.coef        [in, out, G + k]
+ *   act_fun.l.scale_base  [in, out]
+ *   act_fun.l.scale_sp    [in, out]
+ *   act_fun.l.mask        [in, out]
+ *
+ * The sums of the edges into output j then go through
+ * node_scale.l[j] * (subnode_scale.l[j] * sum + subnode_bias.l[j]) +
+ * node_bias.l[j], which is the scale and bias of the node here.
+ *
+ * A checkpoint is exported from Python with
+ *
+ *   json.dump({"width": model.width, "grid": model.grid, "k": model.k,
+ *              "state_dict": {key: value.tolist()
+ *                             for key, value in model.state_dict().items()}},
+ *             file)
+ *
+ * and loaded back with KAN(width=..., grid=..., k=...) followed by
+ * model.load_state_dict({key: torch.tensor(value) ...}, strict=False).
+ *
+ * The knot vector of an imported spline is pykan's extended grid, so the
+ * functions are the same on the grid range. Outside of it the edges here
+ * hold their boundary value, while pykan's splines fade out.
+ */
+
+export interface PykanState {
+  /**
+   * Layer widths, inputs first. pykan's [sum, mult] pairs are accepted as
+   * long as there are no multiplication nodes.
+   */
+  width: (number | number[])[];
+  /** Number of grid intervals G */
+  grid?: number;
+  /** Spline order */
+  k: number;
+  /** Name of the base function, "silu" if missing */
+  base_fun?: string;
+  /** model.state_dict() with the tensors as nested lists */
+  state_dict: {[key: string]: any};
+}
+
+/** Base functions by their name in pykan */
+const PYKAN_BASE_FUNCTIONS: {[name: string]: BaseFunction} = {
+  "silu": BaseFunctions.SILU,
+  "identity": BaseFunctions.IDENTITY,
+  "tanh": BaseFunctions.TANH,
+  "zero": BaseFunctions.ZERO
+};
+
+/** Whether the parsed JSON looks like an exported pykan checkpoint */
+export function isPykanState(data: any): boolean {
+  return data != null && data.width instanceof Array &&
+      data.state_dict != null;
+}
+
+/** A tensor of the state dict, checked against the expected shape */
+function getTensor(stateDict: {[key: string]: any}, key: string,
+    shape: number[]): any {
+  const tensor = stateDict[key];
+  const check = (value: any, dim: number): boolean => {
+    if (dim === shape.length) {
+      return typeof value === "number" && isFinite(value);
+    }
+    return value instanceof Array && value.length === shape[dim] &&
+        value.every((item: any) => check(item, dim + 1));
+  };
+  if (tensor == null) {
+    throw new Error(`The state dict has no ${key}`);
+  }
+  if (!check(tensor, 0)) {
+    throw new Error(`${key} should be a tensor of shape [${shape.join(", ")}]`);
+  }
+  return tensor;
+}
+
+/** All numbers of a nested list */
+function flatten(value: any): number[] {
+  if (!(value instanceof Array)) {
+    return [value];
+  }
+  let result: number[] = [];
+  for (const item of value) {
+    result = result.concat(flatten(item));
+  }
+  return result;
+}
+
+/**
+ * Checks that the parts of a pykan model without a counterpart here are
+ * unused: the symbolic branch.
+ */
+function checkUnsupportedParameters(stateDict: {[key: string]: any}): void {
+  for (const key in stateDict) {
+    if (/^symbolic_fun\.\d+\.mask$/.test(key) &&
+        flatten(stateDict[key]).some(v => v !== 0)) {
+      throw new Error(`${key} enables symbolic functions, which are not ` +
+          `supported; import the model before fixing symbolic functions`);
+    }
+  }
+}
+
+/** Scale and bias of every node of a layer */
+interface LayerAffine {
+  scale: number[];
+  bias: number[];
+}
+
+/**
+ * The node and subnode scales and biases of layer l composed into one scale
+ * and bias per node. Missing tensors leave the sums unchanged.
+ */
+function getLayerAffine(stateDict: {[key: string]: any}, l: number,
+    width: number): LayerAffine {
+  const get = (name: string, identity: number): number[] => {
+    const key = `${name}.${l}`;
+    if (stateDict[key] == null) {
+      const values: number[] = [];
+      for (let j = 0; j < width; j++) {
+        values.push(identity);
+      }
+      return values;
+    }
+    return getTensor(stateDict, key, [width]);
+  };
+  const nodeScale = get("node_scale", 1);
+  const nodeBias = get("node_bias", 0);
+  const subnodeScale = get("subnode_scale", 1);
+  const subnodeBias = get("subnode_bias", 0);
+  return {
+    scale: nodeScale.map((s, j) => s * subnodeScale[j]),
+    bias: nodeScale.map((s, j) => s * subnodeBias[j] + nodeBias[j])
+  };
+}
+
+/**
+ * Scale and bias of a node as pykan's node_scale and node_bias. pykan has
+ * no normalization, so the running statistics of a normalized node are
+ * folded in. Inactive nodes output 0.
+ */
+function getPykanNodeAffine(node: KANNode): {scale: number, bias: number} {
+  return node.isActive ? node.getOutputAffine() : {scale: 1, bias: 0};
+}
+
+/** Layer widths of a pykan model */
+function getWidths(state: PykanState): number[] {
+  return state.width.map((width, layerIdx) => {
+    if (typeof width === "number") {
+      return width;
+    }
+    if (width instanceof Array && width.length === 2 && width[1] === 0) {
+      return width[0];
+    }
+    throw new Error(`Layer ${layerIdx} has multiplication nodes, which ` +
+        `are not supported`);
+  });
+}
+
+/**
+ * Builds a network from an exported pykan checkpoint. The input nodes get
+ * the given ids, so their number must match the model's input width.
+ */
+export function importPykan(state: PykanState,
+    inputIds: string[]): KANNode[][] {
+  const widths = getWidths(state);
+  if (widths.length < 2) {
+    throw new Error("The model needs at least an input and an output layer");
+  }
+  if (widths[0] !== inputIds.length) {
+    throw new Error(`The model has ${widths[0]} inputs, but ` +
+        `${inputIds.length} input features are selected`);
+  }
+  const k = state.k;
+  if (!(k >= 1 && k % 1 === 0)) {
+    throw new Error(`Spline order k = ${k} is not a positive integer`);
+  }
+  const baseName = state.base_fun == null ? "silu" : state.base_fun;
+  if (!PYKAN_BASE_FUNCTIONS.hasOwnProperty(baseName)) {
+    throw new Error(`Unsupported base function "${baseName}", expected one ` +
+        `of ${Object.keys(PYKAN_BASE_FUNCTIONS).join(", ")}`);
+  }
+  const stateDict = state.state_dict;
+  checkUnsupportedParameters(stateDict);
+
+  // The grid size follows from the grid tensor of the first layer
+  const firstGrid = stateDict["act_fun.0.grid"];
+  if (!(firstGrid instanceof Array) || !(firstGrid[0] instanceof Array)) {
+    throw new Error("The state dict has no act_fun.0.grid");
+  }
+  const G = firstGrid[0].length - 2 * k - 1;
+  if (state.grid != null && state.grid !== G) {
+    throw new Error(`act_fun.0.grid has ${G} intervals, but grid is ` +
+        `${state.grid}`);
+  }
+  // A clamped spline of degree k needs k + 2 control points, i.e. the
+  // degree is at most gridSize - 1 (see LearnableFunction)
+  if (G < 2) {
+    throw new Error(`A grid of ${G} interval(s) cannot be represented, at ` +
+        `least 2 are needed`);
+  }
+
+  const network = buildKANNetwork(widths, inputIds, G + k - 1, k, 0,
+      PYKAN_BASE_FUNCTIONS[baseName]);
+  const affines = widths.slice(1).map((width, l) =>
+      getLayerAffine(stateDict, l, width));
+  // The nodes only get a scale and bias if the model changes any sum
+  const hasAffine = affines.some(affine =>
+      affine.scale.some(v => v !== 1) || affine.bias.some(v => v !== 0));
+  affines.forEach((affine, l) => network[l + 1].forEach((node, j) => {
+    node.hasAffine = hasAffine;
+    node.scale = affine.scale[j];
+    node.bias = affine.bias[j];
+  }));
+  for (let l = 0; l < widths.length - 1; l++) {
+    const numIn = widths[l];
+    const numOut = widths[l + 1];
+    const grid = getTensor(stateDict, `act_fun.${l}.grid`,
+        [numIn, G + 2 * k + 1]);
+    const coef = getTensor(stateDict, `act_fun.${l}.coef`,
+        [numIn, numOut, G + k]);
+    const scaleBase = getTensor(stateDict, `act_fun.${l}.scale_base`,
+        [numIn, numOut]);
+    const scaleSp = getTensor(stateDict, `act_fun.${l}.scale_sp`,
+        [numIn, numOut]);
+    const mask = stateDict[`act_fun.${l}.mask`] == null ? null :
+        getTensor(stateDict, `act_fun.${l}.mask`, [numIn, numOut]);
+    for (let i = 0; i < numIn; i++) {
+      const knots: number[] = grid[i];
+      for (let t = 1; t < knots.length; t++) {
+        if (!(knots[t] > knots[t - 1])) {
+          throw new Error(`The grid of input ${i} in layer ${l} is not ` +
+              `strictly increasing`);
+        }
+      }
+      for (let j = 0; j < numOut; j++) {
+        const edge = network[l + 1][j].inputEdges[i];
+        // pykan's extended grid is the knot vector; the spline is defined
+        // between its k-th knots from either end
+        edge.learnableFunction.setGrid([knots[k], knots[G + k]], knots);
+        edge.learnableFunction.controlPoints = new Float64Array(coef[i][j]);
+        // Masks are binary in pykan; other values scale the edge
+        const edgeMask = mask == null ? 1 : mask[i][j];
+        const scale = edgeMask === 0 ? 1 : edgeMask;
+        edge.baseWeight = scale * scaleBase[i][j];
+        edge.splineWeight = scale * scaleSp[i][j];
+        edge.isActive = edgeMask !== 0;
+      }
+    }
+  }
+  return network;
+}
+
+/** Name of the edge's base function in pykan; throws if it has none */
+function getPykanBaseName(edge: KANEdge): string {
+  for (const name in PYKAN_BASE_FUNCTIONS) {
+    if (PYKAN_BASE_FUNCTIONS[name] === edge.baseFunction) {
+      return name;
+    }
+  }
+  throw new Error(`Edge ${edge.id} has a base function pykan does not have`);
+}
+
+/**
+ * pykan's extended grid for a spline: the breakpoints of its knot vector
+ * plus k knots on each side, spaced like pykan's extend_grid does
+ */
+function getExtendedGrid(fn: LearnableFunction): number[] {
+  const k = fn.degree;
+  const breakpoints = fn.knotVector.slice(k, fn.knotVector.length - k);
+  const G = breakpoints.length - 1;
+  const h = (breakpoints[G] - breakpoints[0]) / G;
+  const grid = breakpoints.slice();
+  for (let i = 1; i <= k; i++) {
+    grid.unshift(breakpoints[0] - i * h);
+    grid.push(breakpoints[G] + i * h);
+  }
+  return grid;
+}
+
+/**
+ * Coefficients of the spline on pykan's extended grid. Both knot vectors
+ * have the same breakpoints, so they span the same splines on the range and
+ * the least-squares fit reproduces the function.
+ */
+function getPykanCoefficients(fn: LearnableFunction, grid: number[]): number[] {
+  const k = fn.degree;
+  const target = new LearnableFunction(fn.id, fn.gridSize,
+      [grid[k], grid[grid.length - k - 1]], k, 0);
+  target.setGrid(target.inputRange, grid);
+  const xs: number[] = [];
+  const pointsPerInterval = 2 * (k + 1);
+  for (let t = k; t < grid.length - k - 1; t++) {
+    for (let i = 0; i < pointsPerInterval; i++) {
+      xs.push(grid[t] + (grid[t + 1] - grid[t]) * i / pointsPerInterval);
+    }
+  }
+  xs.push(grid[grid.length - k - 1]);
+  // The fit is exact, so the ridge only needs to guard the solver
+  target.fitControlPoints(xs, xs.map(x => fn.evaluate(x)), 1e-12);
+  return Array.prototype.slice.call(target.controlPoints);
+}
+
+/**
+ * Exports the network as a pykan checkpoint (see PykanState). Inactive
+ * edges and the edges of inactive nodes are masked. Throws if the network
+ * uses something pykan cannot represent.
+ */
+export function exportPykan(network: KANNode[][]): PykanState {
+  let k: number = null;
+  let numCoefficients: number = null;
+  let baseName: string = null;
+  forEachKANEdge(network, edge => {
+    const fn = edge.learnableFunction;
+    if (fn.basis !== Bases.BSPLINE) {
+      throw new Error(`Edge ${edge.id} uses the ${fn.basis.name} basis, but ` +
+          `pykan only has B-splines`);
+    }
+    if (fn.extrapolation !== Extrapolations.CLAMP) {
+      throw new Error(`Edge ${edge.id} uses the ${fn.extrapolation.name} ` +
+          `extrapolation, but pykan only clamps`);
+    }
+    if (edge.symbolic != null) {
+      throw new Error(`Edge ${edge.id} is fixed to a symbolic formula; ` +
+          `restore its spline first`);
+    }
+    if (k == null) {
+      k = fn.degree;
+      numCoefficients = fn.controlPoints.length;
+      baseName = getPykanBaseName(edge);
+    } else if (fn.degree !== k ||
+        fn.controlPoints.length !== numCoefficients) {
+      throw new Error("pykan needs the same degree and grid size on all " +
+          "edges");
+    } else if (getPykanBaseName(edge) !== baseName) {
+      throw new Error("pykan needs the same base function on all edges");
+    }
+  });
+  if (k == null) {
+    throw new Error("The network has no edges");
+  }
+
+  const stateDict: {[key: string]: any} = {};
+  for (let l = 0; l < network.length - 1; l++) {
+    const grid: number[][] = [];
+    const coef: number[][][] = [];
+    const scaleBase: number[][] = [];
+    const scaleSp: number[][] = [];
+    const mask: number[][] = [];
+    for (const source of network[l]) {
+      const edges = network[l + 1].map(dest => {
+        const edge = dest.inputEdges.filter(e => e.sourceNode === source)[0];
+        if (edge == null) {
+          throw new Error(`Node ${source.id} is not connected to node ` +
+              `${dest.id}, but pykan layers are fully connected`);
+        }
+        return edge;
+      });
+      const sourceGrid = getExtendedGrid(edges[0].learnableFunction);
+      const key = edges[0].learnableFunction.knotVector.join(",");
+      if (edges.some(edge => edge.learnableFunction.knotVector.join(",") !==
+          key)) {
+        throw new Error(`The edges leaving node ${source.id} have different ` +
+            `grids, but pykan shares one grid per input`);
+      }
+      grid.push(sourceGrid);
+      coef.push(edges.map(edge =>
+          getPykanCoefficients(edge.learnableFunction, sourceGrid)));
+      scaleBase.push(edges.map(edge => edge.baseWeight));
+      scaleSp.push(edges.map(edge => edge.splineWeight));
+      mask.push(edges.map(edge => edge.isActive && source.isActive &&
+          edge.destNode.isActive ? 1 : 0));
+    }
+    stateDict[`act_fun.${l}.grid`] = grid;
+    stateDict[`act_fun.${l}.coef`] = coef;
+    stateDict[`act_fun.${l}.scale_base`] = scaleBase;
+    stateDict[`act_fun.${l}.scale_sp`] = scaleSp;
+    stateDict[`act_fun.${l}.mask`] = mask;
+    const affines = network[l + 1].map(getPykanNodeAffine);
+    stateDict[`node_scale.${l}`] = affines.map(affine => affine.scale);
+    stateDict[`node_bias.${l}`] = affines.map(affine => affine.bias);
+    stateDict[`subnode_scale.${l}`] = affines.map(() => 1);
+    stateDict[`subnode_bias.${l}`] = affines.map(() => 0);
+  }
+  return {
+    width: network.map(layer => layer.length),
+    grid: numCoefficients - k,
+    k,
+    base_fun: baseName,
+    state_dict: stateDict
+  };
+}
@@ -0,0 +1,174 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+/** Default epochs between two halvings of the step decay schedule */
+export const STEP_DECAY_EPOCHS = 100;
+/** Default per-epoch factor of the exponential decay schedule */
+export const EXPONENTIAL_DECAY = 0.99;
+/**
+ * Default length in epochs of one cosine annealing cycle (restarted
+ * afterwards)
+ */
+export const COSINE_PERIOD = 500;
+/** Lowest rate of the decaying schedules, relative to the base rate */
+export const MIN_RATE_FACTOR = 0.01;
+/** Epochs of the linear warmup of old URLs with the "warmup" schedule */
+export const WARMUP_EPOCHS = 50;
+/**
+ * Default epochs without improvement before reduce-on-plateau halves the
+ * rate
+ */
+export const PLATEAU_PATIENCE = 20;
+/** Relative loss decrease that counts as an improvement for the plateau */
+export const PLATEAU_THRESHOLD = 1e-3;
+
+/** The settings of the schedules, chosen by the user */
+export interface ScheduleParameters {
+  /** Epochs between two halvings of the step decay schedule */
+  stepDecayEpochs: number;
+  /** Per-epoch factor of the exponential decay schedule */
+  exponentialDecay: number;
+  /** Length in epochs of one cosine annealing cycle */
+  cosinePeriod: number;
+  /** Epochs without improvement before reduce-on-plateau halves the rate */
+  plateauPatience: number;
+  /**
+   * Epochs of the linear warmup at the start of training, before the
+   * schedule begins (0 for none)
+   */
+  warmupEpochs: number;
+}
+
+/** The default schedule parameters, without warmup */
+export function getDefaultScheduleParameters(): ScheduleParameters {
+  return {
+    stepDecayEpochs: STEP_DECAY_EPOCHS,
+    exponentialDecay: EXPONENTIAL_DECAY,
+    cosinePeriod: COSINE_PERIOD,
+    plateauPatience: PLATEAU_PATIENCE,
+    warmupEpochs: 0
+  };
+}
+
+/**
+ * Per-run state of a schedule: the epoch at which it started, the reduction
+ * factor and the best monitored loss with the number of epochs since it
+ * improved (reduce-on-plateau).
+ */
+export interface ScheduleState {
+  startEpoch: number;
+  factor: number;
+  bestLoss: number;
+  numBadEpochs: number;
+}
+
+/** Create a fresh schedule state for a schedule starting at startEpoch */
+export function createScheduleState(startEpoch = 0): ScheduleState {
+  return {startEpoch, factor: 1, bestLoss: Infinity, numBadEpochs: 0};
+}
+
+/**
+ * A learning-rate schedule: the rate of a (0-based) epoch, counted from the
+ * start of the schedule, given the base rate, and an optional hook that sees
+ * the monitored loss after each epoch.
+ */
+export interface LearningRateSchedule {
+  rate: (baseRate: number, epoch: number, state: ScheduleState,
+      parameters: ScheduleParameters) => number;
+  observe?: (loss: number, state: ScheduleState,
+      parameters: ScheduleParameters) => void;
+}
+
+/** Built-in learning-rate schedules */
+export class LearningRateSchedules {
+  public static CONSTANT: LearningRateSchedule = {
+    rate: (baseRate: number) => baseRate
+  };
+  /** Halve the rate every stepDecayEpochs epochs */
+  public static STEP: LearningRateSchedule = {
+    rate: (baseRate: number, epoch: number, state: ScheduleState,
+        parameters: ScheduleParameters) => baseRate *
+        Math.max(MIN_RATE_FACTOR, Math.pow(0.5,
+            Math.floor(epoch / Math.max(1, parameters.stepDecayEpochs))))
+  };
+  /** Multiply the rate by exponentialDecay every epoch */
+  public static EXPONENTIAL: LearningRateSchedule = {
+    rate: (baseRate: number, epoch: number, state: ScheduleState,
+        parameters: ScheduleParameters) => baseRate *
+        Math.max(MIN_RATE_FACTOR,
+            Math.pow(parameters.exponentialDecay, epoch))
+  };
+  /**
+   * Anneal from the base rate to MIN_RATE_FACTOR times it along half a
+   * cosine, restarting every cosinePeriod epochs
+   */
+  public static COSINE: LearningRateSchedule = {
+    rate: (baseRate: number, epoch: number, state: ScheduleState,
+        parameters: ScheduleParameters) => {
+      const period = Math.max(1, parameters.cosinePeriod);
+      const t = (epoch % period) / period;
+      return baseRate * (MIN_RATE_FACTOR +
+          (1 - MIN_RATE_FACTOR) * 0.5 * (1 + Math.cos(Math.PI * t)));
+    }
+  };
+  /**
+   * Halve the rate when the monitored loss has not improved by
+   * PLATEAU_THRESHOLD (relative) for plateauPatience epochs
+   */
+  public static PLATEAU: LearningRateSchedule = {
+    rate: (baseRate: number, epoch: number, state: ScheduleState) =>
+        baseRate * state.factor,
+    observe: (loss: number, state: ScheduleState,
+        parameters: ScheduleParameters) => {
+      if (!isFinite(loss)) {
+        return;
+      }
+      if (loss < state.bestLoss * (1 - PLATEAU_THRESHOLD)) {
+        state.bestLoss = loss;
+        state.numBadEpochs = 0;
+      } else if (++state.numBadEpochs >= parameters.plateauPatience) {
+        state.factor = Math.max(MIN_RATE_FACTOR, state.factor * 0.5);
+        state.numBadEpochs = 0;
+      }
+    }
+  };
+}
+
+/**
+ * Rate of the (0-based) training epoch: a linear ramp up to the base rate
+ * during the warmup epochs, then the schedule, counted from its start (or
+ * from the end of the warmup if it started earlier).
+ */
+export function getScheduledRate(schedule: LearningRateSchedule,
+    baseRate: number, epoch: number, state: ScheduleState,
+    parameters: ScheduleParameters): number {
+  if (epoch < parameters.warmupEpochs) {
+    return baseRate * (epoch + 1) / parameters.warmupEpochs;
+  }
+  const startEpoch = Math.max(state.startEpoch, parameters.warmupEpochs);
+  return schedule.rate(baseRate, epoch - startEpoch, state, parameters);
+}
+
+/**
+ * Pass the monitored loss after the (0-based) training epoch to the
+ * schedule; the epochs of the warmup are not monitored.
+ */
+export function observeScheduledLoss(schedule: LearningRateSchedule,
+    loss: number, epoch: number, state: ScheduleState,
+    parameters: ScheduleParameters): void {
+  if (schedule.observe && epoch >= parameters.warmupEpochs) {
+    schedule.observe(loss, state, parameters);
+  }
+}
@@ -0,0 +1,346 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {
+  BaseFunctions,
+  Bases,
+  EdgeStatistics,
+  Extrapolation,
+  Extrapolations,
+  KANEdge,
+  KANNode,
+  Optimizer,
+  OptimizerState,
+  Optimizers,
+  createOptimizerState,
+  forEachKANEdge
+} from "./kan";
+import {SymbolicFunctions} from "./symbolic";
+
+/**
+ * Plain-data copies of a KAN network: structure, parameters, the running
+ * statistics of normalized nodes and (optionally) activation statistics and
+ * optimizer buffers. Snapshots survive structured cloning, so they are how
+ * the network travels between the page and the training worker. Registry
+ * entries (bases, extrapolations, optimizers, base and symbolic functions)
+ * are stored by their key in the registry class, e.g. "SILU" for
+ * BaseFunctions.SILU.
+ */
+
+/** The buffers of the optimizer that last updated an edge or a node */
+export interface OptimizerSnapshot {
+  /** Key in Optimizers */
+  optimizer: string;
+  step: number;
+  m: number[];
+  v: number[];
+}
+
+export interface NodeSnapshot {
+  id: string;
+  isActive: boolean;
+  /** Scale and bias of the output; missing without them */
+  affine?: {scale: number, bias: number};
+  /** Running statistics of a normalized node; missing without them */
+  normalization?: {mean: number, variance: number, count: number};
+  /** Missing before the first update or if not requested */
+  optimizerState?: OptimizerSnapshot;
+}
+
+export interface SymbolicSnapshot {
+  /** Key in SymbolicFunctions */
+  fn: string;
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  r2: number;
+}
+
+export interface EdgeSnapshot {
+  id: string;
+  source: string;
+  dest: string;
+  gridSize: number;
+  degree: number;
+  /** Key in Bases */
+  basis: string;
+  inputRange: [number, number];
+  /** Key in Extrapolations; older snapshots without it clamp */
+  extrapolation?: string;
+  knotVector: number[];
+  controlPoints: number[];
+  /** Key in BaseFunctions */
+  baseFunction: string;
+  baseWeight: number;
+  splineWeight: number;
+  symbolic: SymbolicSnapshot;
+  isActive: boolean;
+  statistics?: EdgeStatistics;
+  /** Missing before the first update or if not requested */
+  optimizerState?: OptimizerSnapshot;
+}
+
+export interface NetworkSnapshot {
+  /** Nodes layer by layer, the first layer being the inputs */
+  layers: NodeSnapshot[][];
+  /** Edges in the order of forEachKANEdge */
+  edges: EdgeSnapshot[];
+}
+
+/** Key of a registry entry, e.g. "SILU" for BaseFunctions.SILU */
+export function getRegistryKey(registry: any, value: any): string {
+  for (let key in registry) {
+    if (registry[key] === value) {
+      return key;
+    }
+  }
+  return undefined;
+}
+
+/** Registry entry by key; throws if the registry has no such entry */
+export function getRegistryEntry<T>(registry: any, key: string,
+    kind: string): T {
+  if (!registry.hasOwnProperty(key)) {
+    throw new Error(`Unknown ${kind} "${key}"`);
+  }
+  return registry[key];
+}
+
+/** Copy of the optimizer buffers; undefined before the first update */
+function snapshotOptimizer(optimizer: Optimizer,
+    state: OptimizerState): OptimizerSnapshot {
+  if (optimizer == null) {
+    return undefined;
+  }
+  return {
+    optimizer: getRegistryKey(Optimizers, optimizer),
+    step: state.step,
+    m: state.m.slice(),
+    v: state.v.slice()
+  };
+}
+
+/**
+ * Copy the optimizer buffers of a snapshot into an edge or a node, or clear
+ * them if the snapshot has none
+ */
+function restoreOptimizer(target: {optimizer: Optimizer,
+    optimizerState: OptimizerState}, snapshot: OptimizerSnapshot): void {
+  if (snapshot == null) {
+    target.optimizer = null;
+    target.optimizerState = createOptimizerState();
+    return;
+  }
+  target.optimizer = getRegistryEntry<Optimizer>(Optimizers,
+      snapshot.optimizer, "optimizer");
+  target.optimizerState =
+      {step: snapshot.step, m: snapshot.m.slice(), v: snapshot.v.slice()};
+}
+
+function snapshotEdge(edge: KANEdge, withStatistics: boolean,
+    withOptimizerState: boolean): EdgeSnapshot {
+  const fn = edge.learnableFunction;
+  const fit = edge.symbolic;
+  const result: EdgeSnapshot = {
+    id: edge.id,
+    source: edge.sourceNode.id,
+    dest: edge.destNode.id,
+    gridSize: fn.gridSize,
+    degree: fn.degree,
+    basis: getRegistryKey(Bases, fn.basis),
+    inputRange: [fn.inputRange[0], fn.inputRange[1]],
+    extrapolation: getRegistryKey(Extrapolations, fn.extrapolation),
+    knotVector: fn.knotVector.slice(),
+    controlPoints: Array.prototype.slice.call(fn.controlPoints),
+    baseFunction: getRegistryKey(BaseFunctions, edge.baseFunction),
+    baseWeight: edge.baseWeight,
+    splineWeight: edge.splineWeight,
+    symbolic: fit == null ? null : {
+      fn: getRegistryKey(SymbolicFunctions, fit.fn),
+      a: fit.a, b: fit.b, c: fit.c, d: fit.d, r2: fit.r2
+    },
+    isActive: edge.isActive
+  };
+  if (withStatistics) {
+    result.statistics = edge.getStatistics();
+  }
+  if (withOptimizerState && edge.optimizer != null) {
+    result.optimizerState =
+        snapshotOptimizer(edge.optimizer, edge.optimizerState);
+  }
+  return result;
+}
+
+function snapshotNode(node: KANNode,
+    withOptimizerState: boolean): NodeSnapshot {
+  const result: NodeSnapshot = {id: node.id, isActive: node.isActive};
+  if (node.hasAffine) {
+    result.affine = {scale: node.scale, bias: node.bias};
+  }
+  if (node.normalize) {
+    result.normalization = {
+      mean: node.runningMean,
+      variance: node.runningVariance,
+      count: node.numStatistics
+    };
+  }
+  if (withOptimizerState && node.optimizer != null) {
+    result.optimizerState =
+        snapshotOptimizer(node.optimizer, node.optimizerState);
+  }
+  return result;
+}
+
+/**
+ * Copy the flag, scale, bias, statistics and optimizer buffers of a snapshot
+ * into a node
+ */
+function restoreNode(node: KANNode, snapshot: NodeSnapshot): void {
+  node.isActive = snapshot.isActive;
+  const affine = snapshot.affine;
+  node.hasAffine = affine != null;
+  node.scale = affine != null ? affine.scale : 1;
+  node.bias = affine != null ? affine.bias : 0;
+  const normalization = snapshot.normalization;
+  node.normalize = normalization != null;
+  if (normalization != null) {
+    node.runningMean = normalization.mean;
+    node.runningVariance = normalization.variance;
+    node.numStatistics = normalization.count;
+  } else {
+    node.resetStatistics();
+  }
+  restoreOptimizer(node, snapshot.optimizerState);
+}
+
+/**
+ * Take a snapshot of the network, by default with the activation statistics
+ * and the optimizer buffers, so training can go on where it stopped
+ */
+export function takeSnapshot(network: KANNode[][], withStatistics = true,
+    withOptimizerState = withStatistics): NetworkSnapshot {
+  const edges: EdgeSnapshot[] = [];
+  forEachKANEdge(network, edge =>
+      edges.push(snapshotEdge(edge, withStatistics, withOptimizerState)));
+  return {
+    layers: network.map(layer =>
+        layer.map(node => snapshotNode(node, withOptimizerState))),
+    edges
+  };
+}
+
+/**
+ * Copy the parameters, flags, statistics and optimizer buffers of a snapshot
+ * into an edge with the same number of control points
+ */
+function restoreEdge(edge: KANEdge, snapshot: EdgeSnapshot): void {
+  const fn = edge.learnableFunction;
+  fn.setGrid(snapshot.inputRange, snapshot.knotVector);
+  fn.setExtrapolation(snapshot.extrapolation == null ?
+      Extrapolations.CLAMP : getRegistryEntry<Extrapolation>(Extrapolations,
+          snapshot.extrapolation, "extrapolation"));
+  fn.controlPoints.set(snapshot.controlPoints);
+  edge.baseWeight = snapshot.baseWeight;
+  edge.splineWeight = snapshot.splineWeight;
+  const fit = snapshot.symbolic;
+  edge.symbolic = fit == null ? null : {
+    fn: getRegistryEntry(SymbolicFunctions, fit.fn, "symbolic function"),
+    a: fit.a, b: fit.b, c: fit.c, d: fit.d, r2: fit.r2
+  };
+  edge.isActive = snapshot.isActive;
+  if (snapshot.statistics) {
+    edge.setStatistics(snapshot.statistics);
+  }
+  restoreOptimizer(edge, snapshot.optimizerState);
+}
+
+/** Build a new network from a snapshot */
+export function restoreNetwork(snapshot: NetworkSnapshot): KANNode[][] {
+  const nodes: {[id: string]: KANNode} = {};
+  const network = snapshot.layers.map(layer => layer.map(nodeSnapshot => {
+    const node = new KANNode(nodeSnapshot.id);
+    restoreNode(node, nodeSnapshot);
+    nodes[node.id] = node;
+    return node;
+  }));
+  const layerOf: {[id: string]: number} = {};
+  network.forEach((layer, layerIdx) =>
+      layer.forEach(node => layerOf[node.id] = layerIdx));
+
+  for (const edgeSnapshot of snapshot.edges) {
+    const source = nodes[edgeSnapshot.source];
+    const dest = nodes[edgeSnapshot.dest];
+    if (source == null || dest == null ||
+        layerOf[dest.id] !== layerOf[source.id] + 1) {
+      throw new Error(`Edge ${edgeSnapshot.id} does not connect two ` +
+          `consecutive layers`);
+    }
+    const layerIdx = layerOf[dest.id];
+    const fanIn = network[layerIdx - 1].length;
+    const fanOut = layerIdx < network.length - 1 ?
+        network[layerIdx + 1].length : 1;
+    const edge = new KANEdge(source, dest, edgeSnapshot.gridSize,
+        edgeSnapshot.degree, 0, fanIn, fanOut,
+        getRegistryEntry(BaseFunctions, edgeSnapshot.baseFunction,
+            "base function"),
+        getRegistryEntry(Bases, edgeSnapshot.basis, "basis"));
+    if (edge.learnableFunction.controlPoints.length !==
+        edgeSnapshot.controlPoints.length) {
+      throw new Error(`Edge ${edgeSnapshot.id} has ` +
+          `${edgeSnapshot.controlPoints.length} control points, expected ` +
+          `${edge.learnableFunction.controlPoints.length}`);
+    }
+    restoreEdge(edge, edgeSnapshot);
+    source.outputEdges.push(edge);
+    dest.inputEdges.push(edge);
+  }
+  return network;
+}
+
+/** Whether a snapshot can be copied into the edge (see restoreEdge) */
+function hasSameLayout(edge: KANEdge, snapshot: EdgeSnapshot): boolean {
+  const fn = edge.learnableFunction;
+  return edge.id === snapshot.id &&
+      fn.controlPoints.length === snapshot.controlPoints.length &&
+      fn.degree === snapshot.degree &&
+      fn.basis === Bases[snapshot.basis] &&
+      edge.baseFunction === BaseFunctions[snapshot.baseFunction];
+}
+
+/**
+ * Copy a snapshot into a network with the same structure, keeping the node,
+ * edge and function objects (and so everything that refers to them).
+ * Returns false, leaving the network untouched, if the structure or a grid
+ * size differs; restoreNetwork is needed then.
+ */
+export function applySnapshot(network: KANNode[][],
+    snapshot: NetworkSnapshot): boolean {
+  if (snapshot.layers.length !== network.length ||
+      snapshot.layers.some((layer, i) => layer.length !== network[i].length ||
+          layer.some((node, j) => node.id !== network[i][j].id))) {
+    return false;
+  }
+  const edges: KANEdge[] = [];
+  forEachKANEdge(network, edge => edges.push(edge));
+  if (edges.length !== snapshot.edges.length ||
+      edges.some((edge, i) => !hasSameLayout(edge, snapshot.edges[i]))) {
+    return false;
+  }
+  snapshot.layers.forEach((layer, i) =>
+      layer.forEach((node, j) => restoreNode(network[i][j], node)));
+  edges.forEach((edge, i) => restoreEdge(edge, snapshot.edges[i]));
+  return true;
+}
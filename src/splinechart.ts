@@ -42,6 +42,8 @@ export interface SplineChartSettings {
 /**
  * A chart for visualizing B-spline learnable functions from KAN networks.
  * Shows the spline curve, control points, knot positions, and grid lines.
+ * Functions on other bases show their centers as knots, and coefficients
+ * of global bases as stems from zero instead of a control polygon.
  */
 export class SplineChart {
   protected settings: SplineChartSettings = {
@@ -86,6 +88,8 @@ export class SplineChart {
   private targetYDomain: [number, number] | null = null;
   private smoothingTimer: any = null;
   private outputHistogramRange: [number, number] = [-1, 1]; // Actual range where output data is collected
+  private symbolicCurve: ((x: number) => number) | null = null; // Formula that replaces the spline
+  private inputRange: [number, number] = [-6, 6]; // Input range of the current function, shown on the x-axis
 
   constructor(container: any, userSettings?: SplineChartSettings) {
     if (userSettings != null) {
@@ -164,7 +168,7 @@ export class SplineChart {
 
     // Set up scales
     this.xScale = d3.scale.linear()
-      .domain(this.settings.interactive ? [-6.8, 6] : [-6, 6])
+      .domain(this.getXDomain())
       .range([0, this.width]);
 
     this.yScale = d3.scale.linear()
@@ -213,7 +217,7 @@ export class SplineChart {
 
     // Update scales with new dimensions
     this.xScale = d3.scale.linear()
-      .domain(this.settings.interactive ? [-6.8, 6] : [-6, 6])
+      .domain(this.getXDomain())
       .range([0, this.width]);
 
     this.yScale = d3.scale.linear()
@@ -243,6 +247,75 @@ export class SplineChart {
     }
   }
 
+  /**
+   * The x-axis spans the input range of the function and a margin on both
+   * sides, where the extrapolation is drawn (and the first control point
+   * of interactive charts can be dragged).
+   */
+  private getXDomain(): [number, number] {
+    const [min, max] = this.inputRange;
+    const margin = (max - min) / 10;
+    return [min - margin, max + margin];
+  }
+
+  /**
+   * Sample inputs of the extrapolation on both sides of the input range,
+   * from the ends of the x-axis to the range boundaries
+   */
+  private getExtensionInputs(numPoints: number): number[][] {
+    const [domainMin, domainMax] = this.getXDomain();
+    const [min, max] = this.inputRange;
+    const left: number[] = [];
+    const right: number[] = [];
+    for (let i = 0; i <= numPoints; i++) {
+      left.push(domainMin + (min - domainMin) * i / numPoints);
+      right.push(max + (domainMax - max) * i / numPoints);
+    }
+    return [left, right];
+  }
+
+  /** numPoints + 1 evenly spaced inputs across the input range */
+  private getSampleInputs(numPoints: number): number[] {
+    const [min, max] = this.inputRange;
+    const xs: number[] = [];
+    for (let i = 0; i <= numPoints; i++) {
+      xs.push(min + (max - min) * i / numPoints);
+    }
+    return xs;
+  }
+
+  /** Rescale the x-axis when the input range of the function changed */
+  private updateXScale(range: [number, number]): void {
+    if (range[0] === this.inputRange[0] && range[1] === this.inputRange[1]) {
+      return;
+    }
+    this.inputRange = [range[0], range[1]];
+    this.xScale.domain(this.getXDomain());
+
+    let xAxis = d3.svg.axis()
+      .scale(this.xScale)
+      .orient("bottom")
+      .ticks(this.settings.showXAxisValues ? 5 : 0);
+    this.svg.select(".x.axis").call(xAxis);
+
+    if (this.settings.showGrid) {
+      const lines = this.svg.select(".grid-vertical")
+        .selectAll("line.vertical")
+        .data(this.xScale.ticks(5));
+      lines.enter()
+        .append("line")
+        .attr("class", "vertical")
+        .attr("y1", 0)
+        .attr("y2", this.height)
+        .style("stroke", "#e0e0e0")
+        .style("stroke-width", 1);
+      lines
+        .attr("x1", (d: number) => this.xScale(d))
+        .attr("x2", (d: number) => this.xScale(d));
+      lines.exit().remove();
+    }
+  }
+
   private updateBorder(): void {
     if (this.settings.showBorder) {
       this.chartContainer.style({
@@ -352,6 +425,7 @@ export class SplineChart {
    */
   updateFunction(learnableFunction: LearnableFunction, inputHistogramData?: number[], outputHistogramData?: number[], outputHistogramRange?: [number, number], animated: boolean = true): void {
     this.currentFunction = learnableFunction;
+    this.updateXScale(learnableFunction.inputRange);
     
     // Store output histogram range if provided
     if (outputHistogramRange) {
@@ -387,6 +461,7 @@ export class SplineChart {
 
     // Update the spline curve (using transition instead of remove/create)
     this.updateSplineCurve();
+    this.updateSymbolicCurve();
 
     // Update control points if enabled (using D3 data binding)
     if (this.settings.showControlPoints) {
@@ -414,19 +489,26 @@ export class SplineChart {
     let minY = Infinity;
     let maxY = -Infinity;
 
-    for (let i = 0; i <= numSamples; i++) {
-      const x = -6 + (12 * i) / numSamples;
+    const [left, right] = this.getExtensionInputs(numSamples / 10);
+    for (const x of this.getSampleInputs(numSamples).concat(left, right)) {
       const y = this.currentFunction.evaluate(x);
       minY = Math.min(minY, y);
       maxY = Math.max(maxY, y);
+      if (this.symbolicCurve) {
+        const symbolicY = this.symbolicCurve(x);
+        if (isFinite(symbolicY)) {
+          minY = Math.min(minY, symbolicY);
+          maxY = Math.max(maxY, symbolicY);
+        }
+      }
     }
 
     // If showing control points, include them in the Y range calculation
     if (this.settings.showControlPoints) {
       const controlPoints = this.currentFunction.controlPoints;
-      for (let cp of controlPoints) {
-        minY = Math.min(minY, cp);
-        maxY = Math.max(maxY, cp);
+      for (let i = 0; i < controlPoints.length; i++) {
+        minY = Math.min(minY, controlPoints[i]);
+        maxY = Math.max(maxY, controlPoints[i]);
       }
     }
 
@@ -514,8 +596,7 @@ export class SplineChart {
     const numPoints = 200;
     const lineData: Array<[number, number]> = [];
 
-    for (let i = 0; i <= numPoints; i++) {
-      const x = -6 + (12 * i) / numPoints;
+    for (const x of this.getSampleInputs(numPoints)) {
       const y = this.currentFunction.evaluate(x);
       lineData.push([this.xScale(x), this.yScale(y)]);
     }
@@ -548,8 +629,7 @@ export class SplineChart {
     const numPoints = 200;
     const lineData: Array<[number, number]> = [];
 
-    for (let i = 0; i <= numPoints; i++) {
-      const x = -6 + (12 * i) / numPoints;
+    for (const x of this.getSampleInputs(numPoints)) {
       const y = this.currentFunction.evaluate(x);
       lineData.push([this.xScale(x), this.yScale(y)]);
     }
@@ -581,20 +661,97 @@ export class SplineChart {
 
     // EXIT: Remove any extra curves (shouldn't happen, but good practice)
     curve.exit().remove();
+
+    this.updateExtension();
+  }
+
+  /**
+   * Draw the function outside its input range as dashed curves, so the
+   * extrapolation policy is visible beyond the grid
+   */
+  private updateExtension(): void {
+    const line = d3.svg.line()
+      .x((d: [number, number]) => d[0])
+      .y((d: [number, number]) => d[1])
+      .interpolate("linear");
+    const extensionData = this.getExtensionInputs(20).map(xs =>
+        xs.map(x => [this.xScale(x), this.yScale(this.currentFunction.evaluate(x))]));
+
+    const extensions = this.svg.selectAll(".spline-extension")
+      .data(extensionData);
+
+    extensions.enter()
+      .append("path")
+      .attr("class", "spline-extension")
+      .style("fill", "none")
+      .style("stroke", "#1B998B")
+      .style("stroke-width", 2)
+      .style("stroke-dasharray", "4,3")
+      .style("opacity", 0.6);
+
+    extensions.transition()
+      .duration(50)
+      .attr("d", line);
+
+    extensions.exit().remove();
+  }
+
+  /**
+   * Set the symbolic formula an edge is fixed to, or null. The formula is
+   * drawn as a dashed curve on top of the (then unused) spline.
+   */
+  setSymbolicCurve(curve: ((x: number) => number) | null): void {
+    this.symbolicCurve = curve;
+    this.updateSymbolicCurve();
+  }
+
+  private updateSymbolicCurve(): void {
+    // Fade the spline while a formula replaces it
+    this.svg.selectAll(".spline-curve")
+      .style("opacity", this.symbolicCurve ? 0.3 : 1);
+
+    const lineData: Array<[number, number]> = [];
+    if (this.symbolicCurve) {
+      const numPoints = 200;
+      for (const x of this.getSampleInputs(numPoints)) {
+        const y = this.symbolicCurve(x);
+        if (isFinite(y)) {
+          lineData.push([this.xScale(x), this.yScale(y)]);
+        }
+      }
+    }
+
+    const line = d3.svg.line()
+      .x((d: [number, number]) => d[0])
+      .y((d: [number, number]) => d[1])
+      .interpolate("linear");
+
+    const curve = this.svg.selectAll(".symbolic-curve")
+      .data(this.symbolicCurve ? [lineData] : []);
+
+    curve.enter()
+      .append("path")
+      .attr("class", "symbolic-curve")
+      .style("fill", "none")
+      .style("stroke", "#f59322")
+      .style("stroke-width", 2)
+      .style("stroke-dasharray", "4,3");
+
+    curve.attr("d", line);
+
+    curve.exit().remove();
   }
 
   private drawControlPoints(): void {
     if (!this.currentFunction) return;
 
     const controlPoints = this.currentFunction.controlPoints;
-    const numPoints = controlPoints.length;
 
-    // Map control point indices to x positions
-    // For clamped B-splines, control points are roughly uniformly distributed
-    const controlPointData = controlPoints.map((y, i) => {
-      // Approximate x position based on control point index
-      const x = -6 + (12 * i) / (numPoints - 1);
-      return { x, y, index: i };
+    // Place each control point at its Greville abscissa so that the
+    // control polygon follows the (possibly non-uniform) knot vector
+    const positions = this.currentFunction.getControlPointPositions();
+    const controlPointData = positions.map((x, i) => {
+      return { x, y: controlPoints[i], index: i };
     });
 
     // Create or update drag behavior if interactive
@@ -690,10 +847,7 @@ export class SplineChart {
 
     // Draw lines connecting control points
     if (controlPointData.length > 1) {
-      const controlLine = d3.svg.line()
-        .x((d: any) => this.xScale(d.x))
-        .y((d: any) => this.yScale(d.y))
-        .interpolate("linear");
+      const controlLine = this.getControlPolygonLine();
 
       // Create a unique class for the current control polygon
       const timestamp = Date.now();
@@ -733,12 +887,11 @@ export class SplineChart {
     if (!this.currentFunction) return;
 
     const controlPoints = this.currentFunction.controlPoints;
-    const numPoints = controlPoints.length;
 
     // Map control point indices to x positions
-    const controlPointData = controlPoints.map((y, i) => {
-      const x = -6 + (12 * i) / (numPoints - 1);
-      return { x, y, index: i };
+    const positions = this.currentFunction.getControlPointPositions();
+    const controlPointData = positions.map((x, i) => {
+      return { x, y: controlPoints[i], index: i };
     });
 
     // Create or update drag behavior if interactive
@@ -845,10 +998,7 @@ export class SplineChart {
       return;
     }
 
-    const controlLine = d3.svg.line()
-      .x((d: any) => this.xScale(d.x))
-      .y((d: any) => this.yScale(d.y))
-      .interpolate("linear");
+    const controlLine = this.getControlPolygonLine();
 
     // Use D3 data binding for control polygon
     const polygon = this.svg.selectAll(".control-polygon")
@@ -873,17 +1023,28 @@ export class SplineChart {
     polygon.exit().remove();
   }
 
+  /**
+   * Path generator of the control polygon: a line through the control
+   * points, or a stem from zero to each coefficient of a global basis.
+   */
+  private getControlPolygonLine(): (data: any[]) => string {
+    if (this.currentFunction.basis.local) {
+      return d3.svg.line()
+        .x((d: any) => this.xScale(d.x))
+        .y((d: any) => this.yScale(d.y))
+        .interpolate("linear");
+    }
+    return (data: any[]) => data.map((d: any) => {
+      const x = this.xScale(d.x);
+      return `M${x},${this.yScale(0)}L${x},${this.yScale(d.y)}`;
+    }).join("");
+  }
+
   private drawKnots(): void {
     if (!this.currentFunction) return;
 
-    const knots = this.currentFunction.knotVector;
-    const degree = this.currentFunction.degree;
-
-    // Filter out repeated knots at boundaries for cleaner visualization
-    const uniqueKnots = knots.filter((knot, i) => {
-      // Skip the first degree+1 and last degree+1 knots (boundary repetitions)
-      return i > degree && i < knots.length - degree - 1;
-    });
+    // Internal knots only, without the repeated boundary knots
+    const uniqueKnots = this.currentFunction.getGridLines();
 
     // Draw knot lines
     this.svg.selectAll(".knot-line")
@@ -909,13 +1070,8 @@ export class SplineChart {
   private updateKnots(): void {
     if (!this.currentFunction) return;
 
-    const knots = this.currentFunction.knotVector;
-    const degree = this.currentFunction.degree;
-
-    // Filter out repeated knots at boundaries
-    const uniqueKnots = knots.filter((knot, i) => {
-      return i > degree && i < knots.length - degree - 1;
-    });
+    // Internal knots only, without the repeated boundary knots
+    const uniqueKnots = this.currentFunction.getGridLines();
 
     // Use D3 data binding for knot lines
     const knotLines = this.svg.selectAll(".knot-line")
@@ -958,9 +1114,9 @@ export class SplineChart {
     const histogramHeight = this.settings.histogramSize || 50;
     const histogramGap = this.settings.histogramGap || 10;
     
-    // The histogram bins represent the range [-6, 6] (matching xScale domain)
-    const xMin = -6;
-    const xMax = 6;
+    // The histogram bins span the input range of the function (the edges
+    // record their histograms over it)
+    const [xMin, xMax] = this.inputRange;
     const binWidth = (xMax - xMin) / numBins;
     
     // Create histogram group positioned above the main plot
@@ -1002,8 +1158,7 @@ export class SplineChart {
     const histogramHeight = this.settings.histogramSize || 50;
     const histogramGap = this.settings.histogramGap || 10;
     
-    const xMin = -6;
-    const xMax = 6;
+    const [xMin, xMax] = this.inputRange;
     const binWidth = (xMax - xMin) / numBins;
     
     // Use D3 data binding for histogram group
@@ -1104,8 +1259,9 @@ export class SplineChart {
     }
     
     // Calculate fixed bar height (matching input histogram bar width)
-    const inputBinWidth = 12 / numBins; // xScale domain is always [-6, 6] = 12 units
-    const fixedBarHeight = this.xScale(inputBinWidth) - this.xScale(0);
+    const [xMin, xMax] = this.inputRange;
+    const inputBinWidth = (xMax - xMin) / numBins;
+    const fixedBarHeight = this.xScale(xMin + inputBinWidth) - this.xScale(xMin);
     
     // Create display data from all bins
     const displayData: Array<{index: number, value: number}> = [];
@@ -1156,6 +1312,7 @@ export class SplineChart {
    */
   clear(): void {
     this.svg.selectAll(".spline-curve").remove();
+    this.svg.selectAll(".spline-extension").remove();
     this.svg.selectAll(".control-point").remove();
     this.svg.selectAll(".control-polygon").remove();
     this.svg.selectAll(".knot-line").remove();
@@ -1256,10 +1413,9 @@ export class SplineChart {
 
     // Update control polygon
     const controlPoints = this.currentFunction.controlPoints;
-    const numPoints = controlPoints.length;
-    const controlPointData = controlPoints.map((y, i) => {
-      const x = -1 + (2 * i) / (numPoints - 1);
-      return { x, y, index: i };
+    const positions = this.currentFunction.getControlPointPositions();
+    const controlPointData = positions.map((x, i) => {
+      return { x, y: controlPoints[i], index: i };
     });
 
     this.updateControlPolygon(controlPointData);
@@ -14,6 +14,8 @@ limitations under the License.
 ==============================================================================*/
 
 import * as dataset from "./dataset";
+import * as kan from "./kan";
+import * as schedule from "./schedule";
 
 /** Suffix added to the state when storing if a control is hidden or not. */
 const HIDE_STATE_SUFFIX = "_hide";
@@ -32,6 +34,71 @@ export let regDatasets: {[key: string]: dataset.DataGenerator} = {
   "reg-gauss": dataset.regressGaussian
 };
 
+/**
+ * A map between dataset names and functions that generate multi-class
+ * classification data.
+ */
+export let multiclassDatasets: {[key: string]: dataset.DataGenerator} = {
+  "three-gauss": dataset.classifyThreeGaussData,
+  "three-spiral": dataset.classifyThreeSpiralData,
+  "pie": dataset.classifyPieData
+};
+
+/** A map between names and base functions for the residual edge term. */
+export let baseFunctions: {[key: string]: kan.BaseFunction} = {
+  "zero": kan.BaseFunctions.ZERO,
+  "silu": kan.BaseFunctions.SILU,
+  "identity": kan.BaseFunctions.IDENTITY,
+  "tanh": kan.BaseFunctions.TANH
+};
+
+/** A map between names and basis families of the edge functions. */
+export let bases: {[key: string]: kan.Basis} = {
+  "bspline": kan.Bases.BSPLINE,
+  "chebyshev": kan.Bases.CHEBYSHEV,
+  "rbf": kan.Bases.GAUSSIAN_RBF,
+  "fourier": kan.Bases.FOURIER,
+  "mexican-hat": kan.Bases.MEXICAN_HAT
+};
+
+/** A map between names and extrapolations outside the input range. */
+export let extrapolations: {[key: string]: kan.Extrapolation} = {
+  "clamp": kan.Extrapolations.CLAMP,
+  "linear": kan.Extrapolations.LINEAR,
+  "periodic": kan.Extrapolations.PERIODIC,
+  "zero": kan.Extrapolations.ZERO
+};
+
+/** A map between names and optimizers. */
+export let optimizers: {[key: string]: kan.Optimizer} = {
+  "sgd": kan.Optimizers.SGD,
+  "momentum": kan.Optimizers.MOMENTUM,
+  "adam": kan.Optimizers.ADAM,
+  "rmsprop": kan.Optimizers.RMSPROP
+};
+
+/**
+ * A map between names and error functions. Multi-class problems always use
+ * softmax cross-entropy.
+ */
+export let errorFunctions: {[key: string]: kan.ErrorFunction} = {
+  "square": kan.Errors.SQUARE,
+  "log": kan.Errors.LOG,
+  "hinge": kan.Errors.HINGE,
+  "huber": kan.Errors.HUBER,
+  "abs": kan.Errors.ABS
+};
+
+/** A map between names and learning-rate schedules. */
+export let learningRateSchedules:
+    {[key: string]: schedule.LearningRateSchedule} = {
+  "constant": schedule.LearningRateSchedules.CONSTANT,
+  "step": schedule.LearningRateSchedules.STEP,
+  "exponential": schedule.LearningRateSchedules.EXPONENTIAL,
+  "cosine": schedule.LearningRateSchedules.COSINE,
+  "plateau": schedule.LearningRateSchedules.PLATEAU
+};
+
 export function getKeyFromValue(obj: any, value: any): string {
   for (let key in obj) {
     if (obj[key] === value) {
@@ -45,6 +112,16 @@ function endsWith(s: string, suffix: string): boolean {
   return s.substr(-suffix.length) === suffix;
 }
 
+/** Splits a url hash without the "#" into its parameters */
+function parseHash(hash: string): {[key: string]: string} {
+  let map: {[key: string]: string} = {};
+  for (let keyvalue of hash.split("&")) {
+    let [name, value] = keyvalue.split("=");
+    map[name] = value;
+  }
+  return map;
+}
+
 function getHideProps(obj: any): string[] {
   let result: string[] = [];
   for (let prop in obj) {
@@ -70,12 +147,24 @@ export enum Type {
 
 export enum Problem {
   CLASSIFICATION,
-  REGRESSION
+  REGRESSION,
+  MULTICLASS
 }
 
 export let problems = {
   "classification": Problem.CLASSIFICATION,
-  "regression": Problem.REGRESSION
+  "regression": Problem.REGRESSION,
+  "multiclass": Problem.MULTICLASS
+};
+
+export enum TrainingMode {
+  MINI_BATCH,
+  LBFGS
+}
+
+export let trainingModes = {
+  "minibatch": TrainingMode.MINI_BATCH,
+  "lbfgs": TrainingMode.LBFGS
 };
 
 export interface Property {
@@ -91,7 +180,19 @@ export class State {
     {name: "batchSize", type: Type.NUMBER},
     {name: "dataset", type: Type.OBJECT, keyMap: datasets},
     {name: "regDataset", type: Type.OBJECT, keyMap: regDatasets},
+    {name: "multiclassDataset", type: Type.OBJECT, keyMap: multiclassDatasets},
     {name: "learningRate", type: Type.NUMBER},
+    {name: "learningRateSchedule", type: Type.OBJECT,
+        keyMap: learningRateSchedules},
+    {name: "stepDecayEpochs", type: Type.NUMBER},
+    {name: "exponentialDecay", type: Type.NUMBER},
+    {name: "cosinePeriod", type: Type.NUMBER},
+    {name: "plateauPatience", type: Type.NUMBER},
+    {name: "warmupEpochs", type: Type.NUMBER},
+    {name: "showLearningRate", type: Type.BOOLEAN},
+    {name: "optimizer", type: Type.OBJECT, keyMap: optimizers},
+    {name: "trainingMode", type: Type.OBJECT, keyMap: trainingModes},
+    {name: "errorFunction", type: Type.OBJECT, keyMap: errorFunctions},
     {name: "noise", type: Type.NUMBER},
     {name: "networkShape", type: Type.ARRAY_NUMBER},
     {name: "seed", type: Type.STRING},
@@ -115,10 +216,31 @@ export class State {
     {name: "numControlPoints", type: Type.NUMBER}, // KAN number of control points parameter
     {name: "degree", type: Type.NUMBER},   // KAN B-spline degree parameter
     {name: "initNoise", type: Type.STRING}, // KAN initial control point noise parameter
+    {name: "gridUpdateInterval", type: Type.NUMBER}, // KAN adaptive grid update interval in epochs (0 = off)
+    {name: "gridExtensionSchedule", type: Type.ARRAY_NUMBER}, // KAN epochs at which the grid is refined
+    {name: "baseFunction", type: Type.OBJECT, keyMap: baseFunctions}, // KAN residual base function
+    {name: "basis", type: Type.OBJECT, keyMap: bases}, // KAN basis family of the edge functions
+    {name: "extrapolation", type: Type.OBJECT, keyMap: extrapolations}, // KAN edge functions outside their input range
+    {name: "nodeAffine", type: Type.BOOLEAN}, // KAN learnable scale and bias of the nodes
+    {name: "normalization", type: Type.BOOLEAN}, // KAN running-statistics normalization of the hidden nodes
+    {name: "regularizationRate", type: Type.NUMBER}, // KAN sparsity regularization strength (lambda)
+    {name: "pruneThreshold", type: Type.NUMBER}, // KAN importance below which edges/nodes are pruned
+    {name: "symbolicThreshold", type: Type.NUMBER}, // KAN minimum R² for auto symbolic snapping
   ];
 
   [key: string]: any;
   learningRate = 0.03;
+  learningRateSchedule: schedule.LearningRateSchedule =
+      schedule.LearningRateSchedules.CONSTANT;
+  stepDecayEpochs = schedule.STEP_DECAY_EPOCHS;
+  exponentialDecay = schedule.EXPONENTIAL_DECAY;
+  cosinePeriod = schedule.COSINE_PERIOD;
+  plateauPatience = schedule.PLATEAU_PATIENCE;
+  warmupEpochs = 0; // Epochs of linear warmup before the schedule
+  showLearningRate = false;
+  optimizer: kan.Optimizer = kan.Optimizers.SGD;
+  trainingMode = TrainingMode.MINI_BATCH;
+  errorFunction: kan.ErrorFunction = kan.Errors.SQUARE;
   showTestData = false;
   noise = 0;
   batchSize = 10;
@@ -135,6 +257,16 @@ export class State {
   numControlPoints = 5; // KAN number of control points for spline functions
   degree = 3;   // KAN B-spline degree (1=linear, 3=cubic, etc.)
   initNoise: number | "xavier" | "linear" = 0.3; // Allow strategies
+  gridUpdateInterval = 0; // Epochs between adaptive grid updates (0 = off)
+  gridExtensionSchedule: number[] = []; // Epochs at which the grid is refined
+  baseFunction: kan.BaseFunction = kan.BaseFunctions.ZERO; // Residual base function (zero = none)
+  basis: kan.Basis = kan.Bases.BSPLINE; // Basis family of the edge functions
+  extrapolation: kan.Extrapolation = kan.Extrapolations.CLAMP; // Edge functions outside their input range
+  nodeAffine = false; // Learnable scale and bias of every node's output
+  normalization = false; // Normalize the hidden nodes with running statistics
+  regularizationRate = 0; // Strength of the L1 + entropy sparsity penalty
+  pruneThreshold = 0.01; // Minimum mean |activation| kept by pruning
+  symbolicThreshold = 0.99; // Minimum R² of a formula for auto symbolic
   x = true;
   y = true;
   xTimesY = false;
@@ -146,17 +278,15 @@ export class State {
   sinY = false;
   dataset: dataset.DataGenerator = dataset.classifyCircleData;
   regDataset: dataset.DataGenerator = dataset.regressPlane;
+  multiclassDataset: dataset.DataGenerator = dataset.classifyThreeGaussData;
   seed: string;
 
   /**
-   * Deserializes the state from the url hash.
+   * Deserializes the state from the url hash, or from the given hash without
+   * the "#" (outside the browser).
    */
-  static deserializeState(): State {
-    let map: {[key: string]: string} = {};
-    for (let keyvalue of window.location.hash.slice(1).split("&")) {
-      let [name, value] = keyvalue.split("=");
-      map[name] = value;
-    }
+  static deserializeState(hash = window.location.hash.slice(1)): State {
+    let map = parseHash(hash);
     const state = new State();
 
     function hasKey(name: string): boolean {
@@ -236,6 +366,20 @@ export class State {
     state.noise = Math.max(0, toNum((state as any).noise, 0));
     state.degree = Math.max(1, toInt((state as any).degree, 3));
     state.numControlPoints = Math.max(state.degree + 1, toInt((state as any).numControlPoints, 6));
+    state.gridUpdateInterval = Math.max(0, toInt((state as any).gridUpdateInterval, 0));
+    state.stepDecayEpochs = Math.max(1,
+        toInt(state.stepDecayEpochs, schedule.STEP_DECAY_EPOCHS));
+    state.exponentialDecay =
+        toNum(state.exponentialDecay, schedule.EXPONENTIAL_DECAY);
+    state.cosinePeriod = Math.max(1,
+        toInt(state.cosinePeriod, schedule.COSINE_PERIOD));
+    state.plateauPatience = Math.max(1,
+        toInt(state.plateauPatience, schedule.PLATEAU_PATIENCE));
+    state.warmupEpochs = Math.max(0, toInt(state.warmupEpochs, 0));
+    // The linear warmup used to be a schedule of its own.
+    if (map["learningRateSchedule"] === "warmup" && !hasKey("warmupEpochs")) {
+      state.warmupEpochs = schedule.WARMUP_EPOCHS;
+    }
 
     // Init noise can be strategy or number
     const rawInit = (state as any).initNoise;
@@ -250,10 +394,52 @@ export class State {
     return state;
   }
 
+  /**
+   * Describes the parameters of the hash that deserializeState ignores or
+   * cannot parse: unknown names, unknown values of the registry parameters
+   * and values that are not numbers or booleans where those are expected.
+   */
+  static checkHash(hash: string): string[] {
+    let map = parseHash(hash);
+    let problems: string[] = [];
+    for (let name in map) {
+      if (name === "" || endsWith(name, HIDE_STATE_SUFFIX)) {
+        continue;
+      }
+      let props = State.PROPS.filter(prop => prop.name === name);
+      let value = map[name] || "";
+      if (props.length === 0) {
+        problems.push(`Unknown parameter "${name}"`);
+      } else if (props[0].type === Type.OBJECT &&
+          !(map[name] in props[0].keyMap)) {
+        problems.push(`Unknown value "${map[name]}" of "${name}", expected ` +
+            `one of ${Object.keys(props[0].keyMap).join(", ")}`);
+      } else if (props[0].type === Type.NUMBER && value.trim() !== "" &&
+          isNaN(+value)) {
+        problems.push(`Invalid value "${value}" of "${name}", expected ` +
+            `a number`);
+      } else if (props[0].type === Type.ARRAY_NUMBER && value.trim() !== "" &&
+          value.split(",").some(v => isNaN(+v))) {
+        problems.push(`Invalid value "${value}" of "${name}", expected ` +
+            `comma-separated numbers`);
+      } else if (props[0].type === Type.BOOLEAN && value !== "" &&
+          value !== "true" && value !== "false") {
+        problems.push(`Invalid value "${value}" of "${name}", expected ` +
+            `true or false`);
+      }
+    }
+    return problems;
+  }
+
   /**
    * Serializes the state into the url hash.
    */
   serialize() {
+    window.location.hash = this.toHash();
+  }
+
+  /** Returns the state serialized as in the url hash, without the "#". */
+  toHash(): string {
     // Serialize regular properties.
     let props: string[] = [];
     State.PROPS.forEach(({name, type, keyMap}) => {
@@ -274,7 +460,7 @@ export class State {
     getHideProps(this).forEach(prop => {
       props.push(`${prop}=${this[prop]}`);
     });
-    window.location.hash = props.join("&");
+    return props.join("&");
   }
 
   /** Returns all the hidden properties. */
@@ -0,0 +1,341 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {
+  KANEdge,
+  KANNode,
+  SymbolicFit,
+  SymbolicFunction,
+  forEachKANEdge
+} from "./kan";
+
+function tanh(x: number): number {
+  if (x > 20) {
+    return 1;
+  } else if (x < -20) {
+    return -1;
+  }
+  const e2x = Math.exp(2 * x);
+  return (e2x - 1) / (e2x + 1);
+}
+
+/**
+ * Largest argument of the exponential; beyond it exp stays constant, so a
+ * snapped edge cannot overflow to Infinity (and NaN after it).
+ */
+const MAX_EXP_ARGUMENT = 50;
+
+/**
+ * The symbolic library: functions an edge can be snapped to as
+ * c * f(a * x + b) + d. Only functions defined on the whole real line are
+ * included, and exp is capped at MAX_EXP_ARGUMENT, so a snapped edge never
+ * produces NaN for unseen inputs.
+ */
+export class SymbolicFunctions {
+  public static X: SymbolicFunction = {
+    name: "x",
+    output: x => x,
+    der: x => 1,
+    complexity: 1
+  };
+  public static X2: SymbolicFunction = {
+    name: "x^2",
+    output: x => x * x,
+    der: x => 2 * x,
+    complexity: 2
+  };
+  public static X3: SymbolicFunction = {
+    name: "x^3",
+    output: x => x * x * x,
+    der: x => 3 * x * x,
+    complexity: 3
+  };
+  public static X4: SymbolicFunction = {
+    name: "x^4",
+    output: x => x * x * x * x,
+    der: x => 4 * x * x * x,
+    complexity: 3
+  };
+  public static EXP: SymbolicFunction = {
+    name: "exp",
+    output: x => Math.exp(Math.min(x, MAX_EXP_ARGUMENT)),
+    der: x => x > MAX_EXP_ARGUMENT ? 0 : Math.exp(x),
+    complexity: 2
+  };
+  public static SIN: SymbolicFunction = {
+    name: "sin",
+    output: x => Math.sin(x),
+    der: x => Math.cos(x),
+    complexity: 2
+  };
+  public static TANH: SymbolicFunction = {
+    name: "tanh",
+    output: tanh,
+    der: x => 1 - tanh(x) * tanh(x),
+    complexity: 3
+  };
+  public static ABS: SymbolicFunction = {
+    name: "abs",
+    output: x => Math.abs(x),
+    der: x => x > 0 ? 1 : (x < 0 ? -1 : 0),
+    complexity: 3
+  };
+  public static GAUSSIAN: SymbolicFunction = {
+    name: "gaussian",
+    output: x => Math.exp(-x * x),
+    der: x => -2 * x * Math.exp(-x * x),
+    complexity: 3
+  };
+}
+
+/** All functions of the symbolic library. */
+export const SYMBOLIC_LIBRARY: SymbolicFunction[] = [
+  SymbolicFunctions.X,
+  SymbolicFunctions.X2,
+  SymbolicFunctions.X3,
+  SymbolicFunctions.X4,
+  SymbolicFunctions.EXP,
+  SymbolicFunctions.SIN,
+  SymbolicFunctions.TANH,
+  SymbolicFunctions.ABS,
+  SymbolicFunctions.GAUSSIAN
+];
+
+/** Number of points at which the edge function is sampled for a fit */
+const NUM_FIT_POINTS = 101;
+
+/**
+ * Least-squares c, d of y = c * u + d and the R² of that fit. The R² is 0
+ * when u is constant, and 1 when y is constant.
+ */
+function fitLinear(
+  us: number[],
+  ys: number[]
+): {c: number, d: number, r2: number} {
+  const n = us.length;
+  let meanU = 0;
+  let meanY = 0;
+  for (let i = 0; i < n; i++) {
+    meanU += us[i];
+    meanY += ys[i];
+  }
+  meanU /= n;
+  meanY /= n;
+  let varU = 0;
+  let varY = 0;
+  let cov = 0;
+  for (let i = 0; i < n; i++) {
+    const du = us[i] - meanU;
+    const dy = ys[i] - meanY;
+    varU += du * du;
+    varY += dy * dy;
+    cov += du * dy;
+  }
+  if (varY <= 1e-12 * n) {
+    return {c: 0, d: meanY, r2: 1};
+  }
+  if (!(varU > 1e-12 * n) || !isFinite(varU)) {
+    return {c: 0, d: meanY, r2: 0};
+  }
+  const c = cov / varU;
+  return {c, d: meanY - c * meanU, r2: cov * cov / (varU * varY)};
+}
+
+/**
+ * Fit y ≈ c * fn(a * x + b) + d. a and b are found by a grid search over
+ * aRange x bRange that is zoomed in around the best point numZooms times;
+ * c and d are solved by linear least squares for each (a, b).
+ */
+export function fitSymbolicFunction(
+  fn: SymbolicFunction,
+  xs: number[],
+  ys: number[],
+  aRange: [number, number] = [-10, 10],
+  bRange: [number, number] = [-10, 10],
+  gridPoints: number = 21,
+  numZooms: number = 3
+): SymbolicFit {
+  const us: number[] = new Array(xs.length);
+  const fitAt = (a: number, b: number) => {
+    for (let i = 0; i < xs.length; i++) {
+      us[i] = fn.output(a * xs[i] + b);
+    }
+    return fitLinear(us, ys);
+  };
+
+  let best: SymbolicFit = {fn, a: 1, b: 0, c: 0, d: 0, r2: -Infinity};
+  let [aMin, aMax] = aRange;
+  let [bMin, bMax] = bRange;
+  for (let zoom = 0; zoom <= numZooms; zoom++) {
+    const aStep = (aMax - aMin) / (gridPoints - 1);
+    const bStep = (bMax - bMin) / (gridPoints - 1);
+    for (let i = 0; i < gridPoints; i++) {
+      const a = aMin + i * aStep;
+      for (let j = 0; j < gridPoints; j++) {
+        const b = bMin + j * bStep;
+        const fit = fitAt(a, b);
+        if (fit.r2 > best.r2) {
+          best = {fn, a, b, c: fit.c, d: fit.d, r2: fit.r2};
+        }
+      }
+    }
+    // Zoom in to the neighbourhood of the best grid point.
+    aMin = best.a - 2 * aStep;
+    aMax = best.a + 2 * aStep;
+    bMin = best.b - 2 * bStep;
+    bMax = best.b + 2 * bStep;
+  }
+  return best;
+}
+
+/**
+ * Input range over which an edge is fit: the range of its recorded inputs,
+ * or the spline range if it has not seen any inputs yet.
+ */
+function getObservedRange(edge: KANEdge): [number, number] {
+  if (edge.inputSamples.length === 0) {
+    return edge.learnableFunction.inputRange;
+  }
+  const min = Math.min(...edge.inputSamples);
+  const max = Math.max(...edge.inputSamples);
+  return min < max ? [min, max] : edge.learnableFunction.inputRange;
+}
+
+/**
+ * Sample the edge function at evenly spaced points of its observed input
+ * range, for fitting formulas to it.
+ */
+export function sampleEdgeFunction(edge: KANEdge): {xs: number[], ys: number[]} {
+  const [min, max] = getObservedRange(edge);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < NUM_FIT_POINTS; i++) {
+    const x = min + (max - min) * i / (NUM_FIT_POINTS - 1);
+    xs.push(x);
+    ys.push(edge.evaluate(x));
+  }
+  return {xs, ys};
+}
+
+/** The last fits of an edge with the samples they were computed from */
+interface CachedFits {
+  library: SymbolicFunction[];
+  xs: number[];
+  ys: number[];
+  fits: SymbolicFit[];
+}
+
+/** Cache of suggestSymbolicFits, by edge id */
+const fitCache: {[edgeId: string]: CachedFits} = {};
+
+function sameValues(values1: number[], values2: number[]): boolean {
+  return values1.length === values2.length &&
+      values1.every((value, i) => value === values2[i]);
+}
+
+/**
+ * Fit every function of the library to the edge function over the observed
+ * input range, best R² first. The fits are cached until the sampled edge
+ * function (or its observed range) changes.
+ */
+export function suggestSymbolicFits(
+  edge: KANEdge,
+  library: SymbolicFunction[] = SYMBOLIC_LIBRARY
+): SymbolicFit[] {
+  const {xs, ys} = sampleEdgeFunction(edge);
+  const cached = fitCache[edge.id];
+  if (cached != null && cached.library === library &&
+      sameValues(cached.xs, xs) && sameValues(cached.ys, ys)) {
+    return cached.fits.slice();
+  }
+  const fits = library.map(fn => fitSymbolicFunction(fn, xs, ys));
+  fits.sort((f1, f2) => f2.r2 - f1.r2);
+  fitCache[edge.id] = {library, xs, ys, fits};
+  return fits.slice();
+}
+
+/**
+ * The simplest of the fits whose R² is within tolerance of the best one.
+ */
+export function pickSymbolicFit(
+  fits: SymbolicFit[],
+  tolerance: number = 0.001
+): SymbolicFit {
+  let bestR2 = -Infinity;
+  for (const fit of fits) {
+    bestR2 = Math.max(bestR2, fit.r2);
+  }
+  let pick: SymbolicFit = null;
+  for (const fit of fits) {
+    if (fit.r2 >= bestR2 - tolerance &&
+        (pick == null || fit.fn.complexity < pick.fn.complexity)) {
+      pick = fit;
+    }
+  }
+  return pick;
+}
+
+/**
+ * Snap every active edge that is not yet symbolic to its best symbolic fit
+ * (see pickSymbolicFit), if that fit has an R² of at least minR2. Returns
+ * the edges that were fixed.
+ */
+export function autoSymbolic(
+  network: KANNode[][],
+  minR2: number = 0.99,
+  library: SymbolicFunction[] = SYMBOLIC_LIBRARY
+): KANEdge[] {
+  const fixed: KANEdge[] = [];
+  forEachKANEdge(network, edge => {
+    if (!edge.isActive || edge.symbolic) {
+      return;
+    }
+    const fit = pickSymbolicFit(suggestSymbolicFits(edge, library));
+    if (fit != null && fit.r2 >= minR2) {
+      edge.setSymbolic(fit);
+      fixed.push(edge);
+    }
+  });
+  return fixed;
+}
+
+/** Format a number for a formula, with the given number of digits. */
+function formatNumber(value: number, digits: number): string {
+  return (Math.abs(value) < 0.5 * Math.pow(10, -digits) ? 0 : value)
+      .toFixed(digits);
+}
+
+/** Plain text form of a symbolic fit, e.g. "0.98*sin(1.02*x + 0.10) - 0.01". */
+export function formatSymbolicFit(
+  fit: SymbolicFit,
+  variable: string = "x",
+  digits: number = 2
+): string {
+  const {a, b, c, d} = fit;
+  const bText = formatNumber(Math.abs(b), digits);
+  const arg = `${formatNumber(a, digits)}*${variable}` +
+      (+bText === 0 ? "" : (b < 0 ? " - " : " + ") + bText);
+  const name = fit.fn.name;
+  let term: string;
+  if (name.charAt(0) === "x") {
+    // Powers: (a*x + b)^k
+    term = `(${arg})${name.slice(1)}`;
+  } else {
+    term = `${name}(${arg})`;
+  }
+  const dText = formatNumber(Math.abs(d), digits);
+  return `${formatNumber(c, digits)}*${term}` +
+      (+dText === 0 ? "" : (d < 0 ? " - " : " + ") + dText);
+}
@@ -0,0 +1,477 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+/**
+ * Headless training: the Trainer owns a network, the examples and the
+ * hyperparameters and trains epoch by epoch without touching the DOM, so it
+ * runs in the training worker, on the page and under Node alike. The
+ * functions below derive the examples, features and network of a playground
+ * State, so a script can reproduce any playground configuration.
+ */
+
+import * as kan from "./kan";
+import {Example2D, countClasses, shuffle} from "./dataset";
+import {LBFGS} from "./lbfgs";
+import {
+  LearningRateSchedule,
+  ScheduleParameters,
+  ScheduleState,
+  createScheduleState,
+  getScheduledRate,
+  observeScheduledLoss
+} from "./schedule";
+import {Problem, State, TrainingMode} from "./state";
+
+/** Upper bound for scheduled grid refinement */
+export const MAX_GRID_EXTENSION_CONTROL_POINTS = 100;
+export const NUM_SAMPLES_CLASSIFY = 500;
+export const NUM_SAMPLES_REGRESS = 1200;
+
+export interface InputFeature {
+  f: (x: number, y: number) => number;
+  label?: string;
+  /** f as JavaScript and NumPy expressions, for code generation */
+  code: string;
+  python: string;
+}
+
+/** Input features the network can use, by their State property */
+export let INPUTS: {[name: string]: InputFeature} = {
+  "x": {f: (x, y) => x, label: "X_1", code: "x", python: "x"},
+  "y": {f: (x, y) => y, label: "X_2", code: "y", python: "y"},
+  "xSquared": {f: (x, y) => x * x, label: "X_1^2",
+      code: "x * x", python: "x * x"},
+  "ySquared": {f: (x, y) => y * y,  label: "X_2^2",
+      code: "y * y", python: "y * y"},
+  "xTimesY": {f: (x, y) => x * y, label: "X_1X_2",
+      code: "x * y", python: "x * y"},
+  "sinX": {f: (x, y) => Math.sin(x), label: "sin(X_1)",
+      code: "Math.sin(x)", python: "np.sin(x)"},
+  "sinY": {f: (x, y) => Math.sin(y), label: "sin(X_2)",
+      code: "Math.sin(y)", python: "np.sin(y)"},
+};
+
+/** Hyperparameters of the training loop */
+export interface TrainerOptions {
+  learningRate: number;
+  batchSize: number;
+  regularizationRate: number;
+  optimizer: kan.Optimizer;
+  errorFunction: kan.KANErrorFunction;
+  learningRateSchedule: LearningRateSchedule;
+  /** Settings of the schedule and the warmup before it */
+  scheduleParameters: ScheduleParameters;
+  /** Full-batch L-BFGS instead of mini-batch gradient descent */
+  lbfgs: boolean;
+  /** Epochs between grid updates, 0 for none */
+  gridUpdateInterval: number;
+  /** Epochs after which the grid intervals are doubled */
+  gridExtensionSchedule: number[];
+}
+
+/** Inputs and targets of the examples, already transformed into features */
+export interface Dataset {
+  trainInputs: number[][];
+  trainTargets: (number | number[])[];
+  testInputs: number[][];
+  testTargets: (number | number[])[];
+}
+
+/** Losses of the network after an epoch (or before the first one) */
+export interface Evaluation {
+  iter: number;
+  lossTrain: number;
+  lossTest: number;
+  /** Sparsity penalty on the training examples */
+  regularization: number;
+  /** Learning rate of the last epoch */
+  learningRate: number;
+}
+
+/** Ids of the input features selected in the state */
+export function getInputIds(state: State): string[] {
+  let result: string[] = [];
+  for (let inputName in INPUTS) {
+    if (state[inputName]) {
+      result.push(inputName);
+    }
+  }
+  return result;
+}
+
+/** The selected input features of the point (x, y) */
+export function getInput(state: State, x: number, y: number): number[] {
+  let input: number[] = [];
+  for (let inputName in INPUTS) {
+    if (state[inputName]) {
+      input.push(INPUTS[inputName].f(x, y));
+    }
+  }
+  return input;
+}
+
+/** The loss of the state; multi-class problems always use softmax */
+export function getLossFunction(state: State): kan.KANErrorFunction {
+  return state.problem === Problem.MULTICLASS ?
+      kan.VectorErrors.SOFTMAX_CROSS_ENTROPY : state.errorFunction;
+}
+
+/** Number of output nodes: one per class for multi-class problems. */
+export function getNumOutputs(state: State, examples: Example2D[]): number {
+  return state.problem === Problem.MULTICLASS ? countClasses(examples) : 1;
+}
+
+/**
+ * The training target of a point: the one-hot vector of its class for
+ * multi-class problems, its label otherwise.
+ */
+export function getTarget(state: State, numOutputs: number,
+    point: Example2D): number | number[] {
+  if (state.problem !== Problem.MULTICLASS) {
+    return point.label;
+  }
+  let target: number[] = [];
+  for (let k = 0; k < numOutputs; k++) {
+    target.push(k === point.label ? 1 : 0);
+  }
+  return target;
+}
+
+/**
+ * The examples of the state's dataset, generated from its seed and split
+ * into training and test examples. Math.seedrandom must be installed (the
+ * page loads it as a script).
+ */
+export function generateExamples(state: State):
+    {trainData: Example2D[], testData: Example2D[]} {
+  Math.seedrandom(state.seed);
+  let numSamples = (state.problem === Problem.REGRESSION) ?
+      NUM_SAMPLES_REGRESS : NUM_SAMPLES_CLASSIFY;
+  let generator = state.problem === Problem.CLASSIFICATION ?
+      state.dataset : state.problem === Problem.MULTICLASS ?
+      state.multiclassDataset : state.regDataset;
+  let data = generator(numSamples, state.noise / 100);
+  // Shuffle the data in-place.
+  shuffle(data);
+  // Split into train and test data.
+  let splitIndex = Math.floor(data.length * state.percTrainData / 100);
+  return {trainData: data.slice(0, splitIndex), testData: data.slice(splitIndex)};
+}
+
+/** The examples as inputs and targets of the network */
+export function getDataset(state: State, trainData: Example2D[],
+    testData: Example2D[]): Dataset {
+  let numOutputs = getNumOutputs(state, trainData.concat(testData));
+  let toInput = (point: Example2D) => getInput(state, point.x, point.y);
+  let toTarget = (point: Example2D) => getTarget(state, numOutputs, point);
+  return {
+    trainInputs: trainData.map(toInput),
+    trainTargets: trainData.map(toTarget),
+    testInputs: testData.map(toInput),
+    testTargets: testData.map(toTarget)
+  };
+}
+
+/** Number of nodes per layer for the state, the inputs first. */
+export function getNetworkShape(state: State, numOutputs: number): number[] {
+  return [getInputIds(state).length].concat(state.networkShape)
+      .concat([numOutputs]);
+}
+
+/** A new network as configured in the state */
+export function buildNetwork(state: State,
+    numOutputs: number): kan.KANNode[][] {
+  // Derive gridSize from numControlPoints
+  const gridSize = Math.max(1, Math.floor(state.numControlPoints) - 1);
+  return kan.buildKANNetwork(getNetworkShape(state, numOutputs),
+      getInputIds(state), gridSize, state.degree, state.initNoise,
+      state.baseFunction, state.basis, state.extrapolation, state.nodeAffine,
+      state.normalization);
+}
+
+/** The hyperparameters of the state */
+export function getTrainerOptions(state: State): TrainerOptions {
+  return {
+    learningRate: state.learningRate,
+    batchSize: state.batchSize,
+    regularizationRate: state.regularizationRate,
+    optimizer: state.optimizer,
+    errorFunction: getLossFunction(state),
+    learningRateSchedule: state.learningRateSchedule,
+    scheduleParameters: {
+      stepDecayEpochs: state.stepDecayEpochs,
+      exponentialDecay: state.exponentialDecay,
+      cosinePeriod: state.cosinePeriod,
+      plateauPatience: state.plateauPatience,
+      warmupEpochs: state.warmupEpochs
+    },
+    lbfgs: state.trainingMode === TrainingMode.LBFGS,
+    gridUpdateInterval: state.gridUpdateInterval,
+    gridExtensionSchedule: state.gridExtensionSchedule
+  };
+}
+
+/** Mean loss of the network over the given examples */
+export function computeLoss(network: kan.KANNode[][], inputs: number[][],
+    targets: (number | number[])[], errorFunc: kan.KANErrorFunction): number {
+  let loss = 0;
+  for (let i = 0; i < inputs.length; i++) {
+    const outputs = kan.kanForwardProp(network, inputs[i], false);
+    loss += kan.computeKANError(outputs, targets[i], errorFunc);
+  }
+  return loss / inputs.length;
+}
+
+/**
+ * Number of control points of the splines of a network, as in
+ * State.numControlPoints (all edges share the grid size)
+ */
+export function getNumControlPoints(network: kan.KANNode[][]): number {
+  return network[1][0].inputEdges[0].learnableFunction.controlPoints.length;
+}
+
+/**
+ * A trainer set up like the playground with the given state: its examples,
+ * a new network and its hyperparameters. The numControlPoints of the state
+ * follows the scheduled grid extension.
+ */
+export function createTrainer(state: State): Trainer {
+  const {trainData, testData} = generateExamples(state);
+  const trainer = new Trainer();
+  trainer.setOptions(getTrainerOptions(state));
+  trainer.setData(getDataset(state, trainData, testData));
+  trainer.setNetwork(buildNetwork(state,
+      getNumOutputs(state, trainData.concat(testData))), true);
+  trainer.onNetworkReplaced = network => {
+    state.numControlPoints = getNumControlPoints(network);
+  };
+  return trainer;
+}
+
+/**
+ * The training loop. Set the options, data and network, then call step()
+ * once per epoch (or train() for several).
+ */
+export class Trainer {
+  network: kan.KANNode[][] = null;
+  data: Dataset = null;
+  options: TrainerOptions = null;
+  /** Number of epochs trained */
+  iter = 0;
+  /** Learning rate of the last epoch according to the schedule */
+  learningRate = 0;
+  /** Called after every epoch */
+  onEpoch: (evaluation: Evaluation) => void = null;
+  /** Called when the grid extension replaced the network */
+  onNetworkReplaced: (network: kan.KANNode[][]) => void = null;
+  private scheduleState: ScheduleState = createScheduleState();
+  private lbfgs = new LBFGS();
+  /** Edges edited since their statistics were recomputed */
+  private editedEdges: kan.KANEdge[] = [];
+
+  /** Replace the network; reset also restarts the epochs and the schedule */
+  setNetwork(network: kan.KANNode[][], reset = false): void {
+    this.network = network;
+    this.editedEdges = [];
+    // The curvature history no longer matches the parameters.
+    this.lbfgs.reset();
+    if (reset) {
+      this.iter = 0;
+      this.scheduleState = createScheduleState();
+    }
+  }
+
+  setData(data: Dataset): void {
+    this.data = data;
+  }
+
+  setOptions(options: TrainerOptions): void {
+    if (this.options != null && this.options.lbfgs !== options.lbfgs) {
+      this.lbfgs.reset();
+    }
+    this.options = options;
+  }
+
+  /**
+   * Restart the learning-rate schedule at the current epoch (or at the end of
+   * the warmup if that is still running)
+   */
+  resetSchedule(): void {
+    this.scheduleState = createScheduleState(this.iter);
+  }
+
+  /** Set the parameters of an edge, e.g. after the user edited it */
+  setEdgeParameters(edgeId: string, parameters: number[]): void {
+    kan.forEachKANEdge(this.network, edge => {
+      if (edge.id === edgeId) {
+        edge.setParameters(parameters);
+        if (this.editedEdges.indexOf(edge) === -1) {
+          this.editedEdges.push(edge);
+        }
+      }
+    });
+  }
+
+  /** Train for one epoch and return the losses afterwards */
+  step(): Evaluation {
+    this.checkReady();
+    const {options, data} = this;
+    this.learningRate = getScheduledRate(options.learningRateSchedule,
+        options.learningRate, this.iter, this.scheduleState,
+        options.scheduleParameters);
+    this.iter++;
+    if (options.lbfgs) {
+      this.lbfgsStep();
+    } else {
+      // The normalized nodes track the statistics of the training examples.
+      kan.setKANTraining(this.network, true);
+      data.trainInputs.forEach((input, i) => {
+        kan.kanForwardProp(this.network, input);
+        kan.kanBackProp(this.network, data.trainTargets[i],
+            options.errorFunction);
+        if ((i + 1) % options.batchSize === 0) {
+          kan.updateKANWeights(this.network, this.learningRate,
+              options.optimizer, options.regularizationRate);
+        }
+      });
+      kan.setKANTraining(this.network, false);
+    }
+    // Periodically adapt the spline grids to the observed activations.
+    if (options.gridUpdateInterval > 0 &&
+        this.iter % options.gridUpdateInterval === 0) {
+      kan.updateKANGrids(this.network);
+      this.lbfgs.reset();
+    }
+    // Refine the grid at the scheduled epochs, doubling the grid intervals.
+    if (options.gridExtensionSchedule.indexOf(this.iter) !== -1) {
+      this.extendGrid();
+    }
+
+    const evaluation = this.evaluate();
+    observeScheduledLoss(options.learningRateSchedule, evaluation.lossTest,
+        this.iter - 1, this.scheduleState, options.scheduleParameters);
+    if (this.onEpoch) {
+      this.onEpoch(evaluation);
+    }
+    return evaluation;
+  }
+
+  /** Train for the given number of epochs and return their evaluations */
+  train(numEpochs: number): Evaluation[] {
+    const evaluations: Evaluation[] = [];
+    for (let i = 0; i < numEpochs; i++) {
+      evaluations.push(this.step());
+    }
+    return evaluations;
+  }
+
+  /** The losses of the current network */
+  evaluate(): Evaluation {
+    this.checkReady();
+    const {network, data, options} = this;
+    this.refreshEditedStatistics();
+    if (this.iter === 0) {
+      this.learningRate = getScheduledRate(options.learningRateSchedule,
+          options.learningRate, 0, this.scheduleState,
+          options.scheduleParameters);
+    }
+    return {
+      iter: this.iter,
+      lossTrain: computeLoss(network, data.trainInputs, data.trainTargets,
+          options.errorFunction),
+      lossTest: computeLoss(network, data.testInputs, data.testTargets,
+          options.errorFunction),
+      regularization: kan.computeKANRegularization(network, data.trainInputs,
+          options.regularizationRate),
+      learningRate: this.learningRate
+    };
+  }
+
+  /** Outputs of the network for the given input features */
+  predict(input: number[]): number[] {
+    return kan.kanForwardProp(this.network, input, false);
+  }
+
+  private checkReady(): void {
+    if (this.network == null || this.data == null || this.options == null) {
+      throw new Error("The trainer has no network, data or options yet");
+    }
+  }
+
+  /**
+   * Performs one L-BFGS iteration on the full training set. The learning
+   * rate, batch size and optimizer are not used in this mode.
+   */
+  private lbfgsStep(): void {
+    const {network, data, options} = this;
+    // The line search needs a fixed objective, so the running statistics
+    // are updated once per iteration and held constant during it.
+    if (kan.hasKANNormalization(network)) {
+      kan.updateKANStatistics(network, data.trainInputs);
+    }
+    const objective = (params: number[]) => {
+      kan.setKANParameters(network, params);
+      return kan.computeKANLossAndGradient(network, data.trainInputs,
+          data.trainTargets, options.errorFunction,
+          options.regularizationRate);
+    };
+    const result = this.lbfgs.step(objective, kan.getKANParameters(network));
+    kan.setKANParameters(network, result.x);
+    // The objective does not record activations (the line search also tries
+    // rejected parameters), so record those of the accepted ones for the
+    // grid updates, histograms and symbolic fits.
+    for (const input of data.trainInputs) {
+      kan.kanForwardProp(network, input, true);
+    }
+  }
+
+  private extendGrid(): void {
+    const fn = this.network[1][0].inputEdges[0].learnableFunction;
+    const numIntervals = fn.gridSize - fn.degree + 1;
+    const gridSize = Math.min(MAX_GRID_EXTENSION_CONTROL_POINTS - 1,
+        2 * numIntervals + fn.degree - 1);
+    if (gridSize <= fn.gridSize) {
+      return;
+    }
+    this.network = kan.extendKANGrid(this.network, gridSize);
+    this.editedEdges = [];
+    this.lbfgs.reset();
+    // Populate the histograms of the new edges.
+    for (const input of this.data.trainInputs) {
+      kan.kanForwardProp(this.network, input, true);
+    }
+    if (this.onNetworkReplaced) {
+      this.onNetworkReplaced(this.network);
+    }
+  }
+
+  /**
+   * Recompute the histograms of the edited edges, whose functions changed
+   * since the histograms were recorded
+   */
+  private refreshEditedStatistics(): void {
+    if (this.editedEdges.length === 0) {
+      return;
+    }
+    for (const edge of this.editedEdges) {
+      edge.updateOutputHistogramRange();
+      edge.resetHistogram();
+    }
+    this.editedEdges = [];
+    for (const input of this.data.trainInputs) {
+      kan.kanForwardProp(this.network, input, true);
+    }
+  }
+}
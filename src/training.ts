@@ -0,0 +1,286 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import * as kan from "./kan";
+import {
+  LearningRateSchedule,
+  LearningRateSchedules,
+  ScheduleParameters
+} from "./schedule";
+import {
+  NetworkSnapshot,
+  getRegistryEntry,
+  getRegistryKey,
+  restoreNetwork,
+  takeSnapshot
+} from "./snapshot";
+import {Dataset, Evaluation, Trainer, TrainerOptions} from "./trainer";
+
+/**
+ * Hyperparameters of the training loop. Optimizers, losses and schedules are
+ * given by their key in the registry class (e.g. "ADAM" for Optimizers.ADAM).
+ */
+export interface TrainingConfig {
+  learningRate: number;
+  batchSize: number;
+  regularizationRate: number;
+  optimizer: string;
+  /** Key in Errors or VectorErrors */
+  errorFunction: string;
+  learningRateSchedule: string;
+  scheduleParameters: ScheduleParameters;
+  /** Full-batch L-BFGS instead of mini-batch gradient descent */
+  lbfgs: boolean;
+  /** Epochs between grid updates, 0 for none */
+  gridUpdateInterval: number;
+  /** Epochs after which the grid intervals are doubled */
+  gridExtensionSchedule: number[];
+}
+
+/** The examples of a training session */
+export interface TrainingData extends Dataset {
+  /** Inputs of the cells of the decision boundary grid */
+  boundaryInputs: number[][];
+}
+
+/**
+ * Messages from the page to the training session. Every change of the
+ * network made on the page carries a new version, which the session puts
+ * into its snapshots, so the page can ignore the snapshots of steps that
+ * started before the change.
+ */
+export type TrainingRequest =
+  {type: "data", data: TrainingData} |
+  /** Replace the network; reset also restarts the epochs and the schedule */
+  {type: "network", version: number, network: NetworkSnapshot,
+      reset: boolean} |
+  /** New parameters of one edge, e.g. from dragging a control point */
+  {type: "edit", version: number, edgeId: string, parameters: number[]} |
+  /** Restart the learning-rate schedule at the current epoch */
+  {type: "resetSchedule"} |
+  /** Train for one epoch and reply with a snapshot */
+  {type: "step", config: TrainingConfig} |
+  /** Reply with a snapshot of the current network */
+  {type: "evaluate", config: TrainingConfig};
+
+/** State of the session after a step or evaluation */
+export interface TrainingSnapshot {
+  type: "snapshot";
+  /** Version of the last network change from the page */
+  version: number;
+  /** Whether the snapshot follows a training step */
+  trained: boolean;
+  iter: number;
+  lossTrain: number;
+  lossTest: number;
+  regularization: number;
+  /** Learning rate of the last epoch */
+  learningRate: number;
+  network: NetworkSnapshot;
+  /** Output of every non-input node on the decision boundary grid */
+  boundary: {[nodeId: string]: Float64Array};
+}
+
+export type TrainingResponse =
+  TrainingSnapshot |
+  {type: "error", message: string} |
+  /** Sent once by a worker when it can receive requests */
+  {type: "ready"};
+
+/** Error function by its key in Errors or VectorErrors */
+export function getErrorFunction(key: string): kan.KANErrorFunction {
+  return kan.VectorErrors.hasOwnProperty(key) ? kan.VectorErrors[key] :
+      getRegistryEntry<kan.ErrorFunction>(kan.Errors, key, "error function");
+}
+
+/** Key of an error function in Errors or VectorErrors */
+export function getErrorFunctionKey(errorFunc: kan.KANErrorFunction): string {
+  return getRegistryKey(kan.Errors, errorFunc) ||
+      getRegistryKey(kan.VectorErrors, errorFunc);
+}
+
+/** The hyperparameters as a message (see TrainingConfig) */
+export function toTrainingConfig(options: TrainerOptions): TrainingConfig {
+  return {
+    learningRate: options.learningRate,
+    batchSize: options.batchSize,
+    regularizationRate: options.regularizationRate,
+    optimizer: getRegistryKey(kan.Optimizers, options.optimizer),
+    errorFunction: getErrorFunctionKey(options.errorFunction),
+    learningRateSchedule: getRegistryKey(LearningRateSchedules,
+        options.learningRateSchedule),
+    scheduleParameters: options.scheduleParameters,
+    lbfgs: options.lbfgs,
+    gridUpdateInterval: options.gridUpdateInterval,
+    gridExtensionSchedule: options.gridExtensionSchedule
+  };
+}
+
+function fromTrainingConfig(config: TrainingConfig): TrainerOptions {
+  return {
+    learningRate: config.learningRate,
+    batchSize: config.batchSize,
+    regularizationRate: config.regularizationRate,
+    optimizer: getRegistryEntry<kan.Optimizer>(kan.Optimizers,
+        config.optimizer, "optimizer"),
+    errorFunction: getErrorFunction(config.errorFunction),
+    learningRateSchedule: getRegistryEntry<LearningRateSchedule>(
+        LearningRateSchedules, config.learningRateSchedule,
+        "learning rate schedule"),
+    scheduleParameters: config.scheduleParameters,
+    lbfgs: config.lbfgs,
+    gridUpdateInterval: config.gridUpdateInterval,
+    gridExtensionSchedule: config.gridExtensionSchedule
+  };
+}
+
+/**
+ * The message end of a Trainer: trains its copy of the network on request
+ * and answers with snapshots of the parameters, losses and decision
+ * boundary. It runs in a Web Worker (see worker.ts), or on the page where
+ * workers are unavailable.
+ */
+export class TrainingSession {
+  private trainer = new Trainer();
+  private boundaryInputs: number[][] = [];
+  private version = 0;
+
+  /** Handle a request, replying with the buffers that can be transferred */
+  handleMessage(request: TrainingRequest,
+      reply: (response: TrainingResponse, transfer: ArrayBuffer[]) => void):
+      void {
+    const trainer = this.trainer;
+    try {
+      switch (request.type) {
+        case "data":
+          trainer.setData(request.data);
+          this.boundaryInputs = request.data.boundaryInputs;
+          break;
+        case "network":
+          trainer.setNetwork(restoreNetwork(request.network), request.reset);
+          this.version = request.version;
+          break;
+        case "edit":
+          trainer.setEdgeParameters(request.edgeId, request.parameters);
+          this.version = request.version;
+          break;
+        case "resetSchedule":
+          trainer.resetSchedule();
+          break;
+        case "step":
+          trainer.setOptions(fromTrainingConfig(request.config));
+          this.reply(trainer.step(), true, reply);
+          break;
+        case "evaluate":
+          trainer.setOptions(fromTrainingConfig(request.config));
+          this.reply(trainer.evaluate(), false, reply);
+          break;
+      }
+    } catch (e) {
+      reply({type: "error", message: e.message}, []);
+    }
+  }
+
+  /** Reply with a snapshot of the session */
+  private reply(evaluation: Evaluation, trained: boolean,
+      reply: (response: TrainingResponse, transfer: ArrayBuffer[]) => void):
+      void {
+    const network = this.trainer.network;
+    const boundary: {[nodeId: string]: Float64Array} = {};
+    const transfer: ArrayBuffer[] = [];
+    kan.forEachKANNode(network, true, node => {
+      boundary[node.id] = new Float64Array(this.boundaryInputs.length);
+      transfer.push(boundary[node.id].buffer as ArrayBuffer);
+    });
+    this.boundaryInputs.forEach((input, i) => {
+      kan.kanForwardProp(network, input, false);
+      kan.forEachKANNode(network, true, node => {
+        boundary[node.id][i] = node.output;
+      });
+    });
+
+    reply({
+      type: "snapshot",
+      version: this.version,
+      trained,
+      iter: evaluation.iter,
+      lossTrain: evaluation.lossTrain,
+      lossTest: evaluation.lossTest,
+      regularization: evaluation.regularization,
+      learningRate: evaluation.learningRate,
+      network: takeSnapshot(network),
+      boundary
+    }, transfer);
+  }
+}
+
+/** The page's end of the connection to a training session */
+export interface TrainingChannel {
+  post(request: TrainingRequest): void;
+  onResponse: (response: TrainingResponse) => void;
+}
+
+/**
+ * Connect to a training session in a Web Worker loaded from workerUrl.
+ * Requests are queued until the worker is ready; if it fails to load (or
+ * workers are unavailable), the session runs on the page instead, answering
+ * asynchronously with the same messages.
+ */
+export function connectTrainingSession(workerUrl: string): TrainingChannel {
+  let queue: TrainingRequest[] = [];
+  let send: (request: TrainingRequest) => void = null;
+  const channel: TrainingChannel = {
+    post: request => send ? send(request) : queue.push(request),
+    onResponse: null
+  };
+  const connect = (sendRequest: (request: TrainingRequest) => void) => {
+    send = sendRequest;
+    queue.forEach(request => send(request));
+    queue = [];
+  };
+  const runOnPage = () => {
+    const session = new TrainingSession();
+    connect(request => setTimeout(() => session.handleMessage(request,
+        response => channel.onResponse(response)), 0));
+  };
+
+  let worker: Worker = null;
+  try {
+    worker = typeof Worker !== "undefined" ? new Worker(workerUrl) : null;
+  } catch (e) {
+    worker = null;
+  }
+  if (worker == null) {
+    runOnPage();
+    return channel;
+  }
+  worker.onmessage = (event: MessageEvent) => {
+    const response: TrainingResponse = event.data;
+    if (response.type === "ready") {
+      connect(request => worker.postMessage(request));
+    } else {
+      channel.onResponse(response);
+    }
+  };
+  worker.onerror = (event: ErrorEvent) => {
+    if (send == null) {
+      // The worker script did not load.
+      event.preventDefault();
+      worker.terminate();
+      runOnPage();
+    }
+  };
+  return channel;
+}
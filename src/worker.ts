@@ -0,0 +1,40 @@
+/* Copyright 2016 Google Inc. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+/**
+ * Entry point of the training worker: runs a TrainingSession and exchanges
+ * its messages with the page (see connectTrainingSession).
+ */
+
+import {TrainingRequest, TrainingResponse, TrainingSession} from "./training";
+
+/**
+ * The parts of the worker's global scope used here; the DOM typings only
+ * describe the self of windows
+ */
+interface WorkerScope {
+  onmessage: (event: MessageEvent) => void;
+  postMessage(message: TrainingResponse, transfer?: ArrayBuffer[]): void;
+}
+
+declare const self: WorkerScope;
+const session = new TrainingSession();
+
+self.onmessage = (event: MessageEvent) => {
+  session.handleMessage(event.data as TrainingRequest,
+      (response: TrainingResponse, transfer: ArrayBuffer[]) =>
+          self.postMessage(response, transfer));
+};
+self.postMessage({type: "ready"});